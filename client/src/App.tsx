@@ -5,12 +5,16 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import Home from "@/pages/Home";
+import History from "@/pages/History";
+import Profiles from "@/pages/Profiles";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/history" component={History} />
+      <Route path="/profiles" component={Profiles} />
       <Route component={NotFound} />
     </Switch>
   );
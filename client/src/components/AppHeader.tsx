@@ -0,0 +1,50 @@
+import { Link, useLocation } from "wouter";
+import { Columns3, FileSpreadsheet, History } from "lucide-react";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Button } from "@/components/ui/button";
+
+export function AppHeader() {
+  const [location] = useLocation();
+
+  return (
+    <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+      <div className="container max-w-6xl mx-auto px-6 h-16 flex items-center justify-between">
+        <Link href="/" className="flex items-center gap-3" data-testid="link-home">
+          <div className="rounded-md bg-primary p-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-foreground">
+              Portfolio Vintage Analyzer
+            </h1>
+          </div>
+        </Link>
+        <div className="flex items-center gap-2">
+          <Button
+            asChild
+            variant={location === "/profiles" ? "secondary" : "ghost"}
+            size="sm"
+            data-testid="link-profiles"
+          >
+            <Link href="/profiles">
+              <Columns3 className="h-4 w-4 mr-2" />
+              Profiles
+            </Link>
+          </Button>
+          <Button
+            asChild
+            variant={location === "/history" ? "secondary" : "ghost"}
+            size="sm"
+            data-testid="link-history"
+          >
+            <Link href="/history">
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Link>
+          </Button>
+          <ThemeToggle />
+        </div>
+      </div>
+    </header>
+  );
+}
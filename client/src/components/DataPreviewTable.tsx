@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import type { ColumnType, FilePreview } from "@shared/schema";
+
+// Rows are a fixed height so the visible window can be computed from scrollTop
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 320;
+const OVERSCAN = 5;
+
+const TYPE_VARIANTS: Record<ColumnType, "default" | "secondary" | "outline"> = {
+  date: "default",
+  currency: "secondary",
+  number: "secondary",
+  text: "outline",
+};
+
+interface DataPreviewTableProps {
+  preview: FilePreview;
+  testId: string;
+}
+
+export function DataPreviewTable({ preview, testId }: DataPreviewTableProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const { headers, columnTypes, rows } = preview;
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const visibleRows = rows.slice(firstRow, lastRow);
+
+  return (
+    <div className="space-y-3" data-testid={testId}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="secondary" className="font-mono text-xs">
+          {rows.length < preview.totalRows
+            ? `First ${rows.length} of ${preview.totalRows} rows`
+            : `${preview.totalRows} rows`}
+        </Badge>
+        {preview.vintages.map((vintage) => (
+          <Badge key={vintage} variant="outline" className="font-mono text-xs">
+            {vintage}
+          </Badge>
+        ))}
+        {preview.missingColumns.length > 0 && (
+          <Badge variant="destructive" className="text-xs" data-testid={`${testId}-missing`}>
+            Missing: {preview.missingColumns.join(", ")}
+          </Badge>
+        )}
+      </div>
+
+      <div
+        className="relative overflow-auto rounded-md border"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <table className="w-full caption-bottom text-sm">
+          <thead className="sticky top-0 z-10 bg-background">
+            <tr className="border-b">
+              {headers.map((header) => (
+                <th
+                  key={header}
+                  className="h-12 px-3 text-left align-middle font-medium text-muted-foreground whitespace-nowrap"
+                >
+                  <div className="flex items-center gap-2">
+                    <span>{header}</span>
+                    <Badge variant={TYPE_VARIANTS[columnTypes[header]]} className="text-[10px]">
+                      {columnTypes[header]}
+                    </Badge>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {firstRow > 0 && (
+              <tr style={{ height: firstRow * ROW_HEIGHT }}>
+                <td colSpan={headers.length} />
+              </tr>
+            )}
+            {visibleRows.map((row, index) => (
+              <tr
+                key={firstRow + index}
+                className="border-b hover:bg-muted/50"
+                style={{ height: ROW_HEIGHT }}
+              >
+                {headers.map((header) => (
+                  <td
+                    key={header}
+                    className={`px-3 whitespace-nowrap font-mono text-xs ${
+                      columnTypes[header] === "text" ? "" : "text-right"
+                    }`}
+                  >
+                    {row[header] ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {lastRow < rows.length && (
+              <tr style={{ height: (rows.length - lastRow) * ROW_HEIGHT }}>
+                <td colSpan={headers.length} />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
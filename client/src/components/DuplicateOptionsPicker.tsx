@@ -0,0 +1,80 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DuplicateHandling, DuplicateKeyField, DuplicateOptions } from "@shared/schema";
+
+const KEY_FIELDS: { key: DuplicateKeyField; label: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "tradeDate", label: "Trade date" },
+  { key: "side", label: "Side" },
+  { key: "quantity", label: "Quantity" },
+  { key: "price", label: "Price" },
+  { key: "tradeId", label: "Trade ID" },
+];
+
+const HANDLING_LABELS: Record<DuplicateHandling, string> = {
+  keep: "Keep duplicates",
+  drop: "Drop duplicates",
+  flag: "Flag duplicates",
+};
+
+interface DuplicateOptionsPickerProps {
+  options: DuplicateOptions;
+  onOptionsChange: (options: DuplicateOptions) => void;
+}
+
+export function DuplicateOptionsPicker({ options, onOptionsChange }: DuplicateOptionsPickerProps) {
+  const toggleField = (field: DuplicateKeyField, checked: boolean) => {
+    const key = checked
+      ? KEY_FIELDS.map((f) => f.key).filter((k) => k === field || options.key.includes(k))
+      : options.key.filter((k) => k !== field);
+    // The key needs at least one field
+    if (key.length > 0) onOptionsChange({ ...options, key });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-muted-foreground">Duplicate trades</span>
+        <Select
+          value={options.handling}
+          onValueChange={(handling) =>
+            onOptionsChange({ ...options, handling: handling as DuplicateHandling })
+          }
+        >
+          <SelectTrigger className="w-[200px]" data-testid="select-duplicate-handling">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(HANDLING_LABELS) as DuplicateHandling[]).map((handling) => (
+              <SelectItem key={handling} value={handling}>
+                {HANDLING_LABELS[handling]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1">
+        <span className="text-xs text-muted-foreground">Matched on</span>
+        {KEY_FIELDS.map(({ key, label }) => (
+          <label
+            key={key}
+            className="flex items-center gap-1.5 text-xs text-foreground cursor-pointer"
+          >
+            <Checkbox
+              checked={options.key.includes(key)}
+              onCheckedChange={(checked) => toggleField(key, checked === true)}
+              data-testid={`checkbox-duplicate-key-${key}`}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,29 @@ import { useCallback, useState } from "react";
 import { Upload, FileSpreadsheet, X } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SheetPicker } from "@/components/SheetPicker";
 import { cn } from "@/lib/utils";
+import type { SheetInfo, SheetSelection } from "@shared/schema";
+
+const ACCEPTED_TYPES = [
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "text/csv",
+  "text/tab-separated-values",
+];
+const ACCEPTED_EXTENSIONS = [".xlsx", ".xls", ".csv", ".tsv"];
 
 interface FileUploadZoneProps {
   title: string;
   description: string;
   file: File | null;
   onFileChange: (file: File | null) => void;
+  headerRow?: string;
+  onHeaderRowChange?: (headerRow: string) => void;
+  sheets?: SheetInfo[];
+  sheetSelection?: SheetSelection;
+  onSheetSelectionChange?: (selection: SheetSelection | undefined) => void;
   testId: string;
 }
 
@@ -17,6 +33,11 @@ export function FileUploadZone({
   description,
   file,
   onFileChange,
+  headerRow = "",
+  onHeaderRowChange,
+  sheets,
+  sheetSelection,
+  onSheetSelectionChange,
   testId,
 }: FileUploadZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
@@ -49,12 +70,10 @@ export function FileUploadZone({
       const files = e.dataTransfer.files;
       if (files && files.length > 0) {
         const file = files[0];
+        const name = file.name.toLowerCase();
         if (
-          file.type ===
-            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-          file.type === "application/vnd.ms-excel" ||
-          file.name.endsWith(".xlsx") ||
-          file.name.endsWith(".xls")
+          ACCEPTED_TYPES.includes(file.type) ||
+          ACCEPTED_EXTENSIONS.some((ext) => name.endsWith(ext))
         ) {
           onFileChange(file);
         }
@@ -101,7 +120,7 @@ export function FileUploadZone({
               </div>
               <div className="text-center space-y-1">
                 <p className="text-sm font-medium text-foreground">
-                  Drag and drop your Excel file here
+                  Drag and drop your Excel, CSV or TSV file here
                 </p>
                 <p className="text-xs text-muted-foreground">
                   Must contain a 'Vintage' column
@@ -110,7 +129,7 @@ export function FileUploadZone({
               <div className="relative">
                 <input
                   type="file"
-                  accept=".xlsx,.xls"
+                  accept={ACCEPTED_EXTENSIONS.join(",")}
                   onChange={handleFileInput}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                   data-testid={testId}
@@ -148,6 +167,33 @@ export function FileUploadZone({
           )}
         </CardContent>
       </Card>
+
+      {file && onHeaderRowChange && (
+        <div className="flex items-center gap-2">
+          <label htmlFor={`${testId}-header-row`} className="text-xs text-muted-foreground">
+            Header row
+          </label>
+          <Input
+            id={`${testId}-header-row`}
+            type="number"
+            min={1}
+            placeholder="Auto"
+            value={headerRow}
+            onChange={(e) => onHeaderRowChange(e.target.value)}
+            className="h-8 w-24 font-mono text-xs"
+            data-testid={`${testId}-header-row`}
+          />
+        </div>
+      )}
+
+      {file && sheets && sheets.length > 1 && onSheetSelectionChange && (
+        <SheetPicker
+          sheets={sheets}
+          selection={sheetSelection}
+          onSelectionChange={onSheetSelectionChange}
+          testId={testId}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,274 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { mappingProfileSchema, type DateOrder, type MappingProfile } from "@shared/schema";
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  us: "Month/day/year (01/31/2024)",
+  eu: "Day/month/year (31/01/2024)",
+};
+
+const REALIZED_FIELDS: { key: keyof MappingProfile["realized"]; label: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "tradeDate", label: "Trade Date" },
+  { key: "side", label: "Side (Buy/Sell)" },
+  { key: "amount", label: "Amount" },
+  { key: "vintage", label: "Vintage" },
+  { key: "quantity", label: "Quantity" },
+  { key: "price", label: "Price" },
+  { key: "tradeId", label: "Trade ID" },
+  { key: "lotId", label: "Lot ID (specific identification)" },
+];
+
+const UNREALIZED_FIELDS: { key: keyof MappingProfile["unrealized"]; label: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "vintage", label: "Vintage" },
+  { key: "date", label: "Date" },
+  { key: "quantity", label: "Quantity" },
+  { key: "price", label: "Mark Price" },
+  { key: "marketValue", label: "Market Value" },
+];
+
+const PRICE_FIELDS: { key: keyof MappingProfile["prices"]; label: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "date", label: "Date" },
+  { key: "price", label: "Price" },
+];
+
+interface MappingProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialProfile: MappingProfile;
+  isNew: boolean;
+  isSaving?: boolean;
+  onSave: (profile: MappingProfile) => void;
+}
+
+export function MappingProfileDialog({
+  open,
+  onOpenChange,
+  initialProfile,
+  isNew,
+  isSaving = false,
+  onSave,
+}: MappingProfileDialogProps) {
+  const form = useForm<MappingProfile>({
+    resolver: zodResolver(mappingProfileSchema),
+    defaultValues: initialProfile,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(initialProfile);
+  }, [open, initialProfile, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "New Mapping Profile" : `Edit ${initialProfile.name}`}</DialogTitle>
+          <DialogDescription>
+            Map each field to the column header used in your broker's export.
+            Headers are matched ignoring case and surrounding spaces.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Profile Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={!isNew} data-testid="input-profile-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dateOrder"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date Order</FormLabel>
+                  <Select value={field.value ?? "us"} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-date-order">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map((order) => (
+                        <SelectItem key={order} value={order}>
+                          {DATE_ORDER_LABELS[order]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    How numeric dates such as 01/05/2024 are read. ISO dates, dates with month
+                    names and Excel date cells are read the same either way.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">Realized File</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {REALIZED_FIELDS.map(({ key, label }) => (
+                  <FormField
+                    key={key}
+                    control={form.control}
+                    name={`realized.${key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="font-mono" data-testid={`input-realized-${key}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="buyValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Buy Value</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="font-mono" data-testid="input-buy-value" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sellValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sell Value</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="font-mono" data-testid="input-sell-value" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dividendValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dividend Value</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="font-mono" data-testid="input-dividend-value" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">Unrealized File</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {UNREALIZED_FIELDS.map(({ key, label }) => (
+                  <FormField
+                    key={key}
+                    control={form.control}
+                    name={`unrealized.${key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="font-mono" data-testid={`input-unrealized-${key}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-foreground">Price History File</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {PRICE_FIELDS.map(({ key, label }) => (
+                  <FormField
+                    key={key}
+                    control={form.control}
+                    name={`prices.${key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="font-mono" data-testid={`input-prices-${key}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} data-testid="button-save-profile">
+                Save Profile
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
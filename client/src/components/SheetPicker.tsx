@@ -0,0 +1,69 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import type { SheetInfo, SheetSelection } from "@shared/schema";
+
+interface SheetPickerProps {
+  sheets: SheetInfo[];
+  selection: SheetSelection | undefined;
+  onSelectionChange: (selection: SheetSelection | undefined) => void;
+  testId: string;
+}
+
+export function SheetPicker({ sheets, selection, onSelectionChange, testId }: SheetPickerProps) {
+  // Without an explicit selection the server reads the first sheet
+  const selected = selection === "all" ? [] : selection ?? [sheets[0]?.sheetName];
+  const allMatching = selection === "all";
+
+  const toggleSheet = (sheetName: string, checked: boolean) => {
+    const next = checked
+      ? sheets.map((s) => s.sheetName).filter((n) => n === sheetName || selected.includes(n))
+      : selected.filter((n) => n !== sheetName);
+    onSelectionChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-foreground">Sheets to read</span>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+          <Checkbox
+            checked={allMatching}
+            onCheckedChange={(checked) => onSelectionChange(checked ? "all" : undefined)}
+            data-testid={`${testId}-all-sheets`}
+          />
+          All matching sheets
+        </label>
+      </div>
+      <ul className="space-y-1.5">
+        {sheets.map((sheet) => (
+          <li key={sheet.sheetName} className="flex items-start gap-2">
+            <Checkbox
+              checked={allMatching ? sheet.matchesProfile : selected.includes(sheet.sheetName)}
+              disabled={allMatching}
+              onCheckedChange={(checked) => toggleSheet(sheet.sheetName, checked === true)}
+              className="mt-0.5"
+              data-testid={`${testId}-sheet-${sheet.sheetName}`}
+            />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-foreground truncate">{sheet.sheetName}</span>
+                <Badge variant="secondary" className="font-mono text-xs">
+                  {sheet.rowCount} rows
+                </Badge>
+                {!sheet.matchesProfile && (
+                  <Badge variant="outline" className="text-xs">
+                    Missing columns
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground font-mono truncate">
+                Row {sheet.headerRow}: {sheet.headers.slice(0, 6).join(", ")}
+                {sheet.headers.length > 6 ? ", …" : ""}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
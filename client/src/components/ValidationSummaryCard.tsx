@@ -0,0 +1,106 @@
+import { AlertTriangle, CheckCircle2, Download } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ValidationSummary } from "@shared/schema";
+
+interface ValidationSummaryCardProps {
+  validation: ValidationSummary;
+  onDownloadReport?: () => void;
+}
+
+export function ValidationSummaryCard({ validation, onDownloadReport }: ValidationSummaryCardProps) {
+  const { errorCount, warningCount, issues } = validation;
+
+  if (errorCount === 0 && warningCount === 0) {
+    return (
+      <div
+        className="flex items-center gap-2 text-sm text-muted-foreground"
+        data-testid="text-validation-clean"
+      >
+        <CheckCircle2 className="h-4 w-4 text-chart-2" />
+        Every source row passed validation
+      </div>
+    );
+  }
+
+  return (
+    <Card data-testid="card-validation">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            <h3 className="font-semibold text-foreground">Validation Issues</h3>
+            <Badge variant="destructive" className="font-mono" data-testid="text-error-count">
+              {errorCount} error{errorCount !== 1 ? "s" : ""}
+            </Badge>
+            <Badge variant="secondary" className="font-mono" data-testid="text-warning-count">
+              {warningCount} warning{warningCount !== 1 ? "s" : ""}
+            </Badge>
+          </div>
+          {onDownloadReport && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDownloadReport}
+              data-testid="button-download-validation"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Report
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-72 overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Severity</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Sheet</TableHead>
+                <TableHead>Row</TableHead>
+                <TableHead>Column</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Message</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.map((issue, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Badge
+                      variant={issue.severity === "error" ? "destructive" : "secondary"}
+                      className="text-xs"
+                    >
+                      {issue.severity}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="capitalize">{issue.kind}</TableCell>
+                  <TableCell className="font-mono text-xs">{issue.sheetName}</TableCell>
+                  <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                  <TableCell className="font-mono text-xs">{issue.column}</TableCell>
+                  <TableCell className="font-mono text-xs">{issue.value}</TableCell>
+                  <TableCell className="text-xs">{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {validation.truncated && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {issues.length} issues; download the report for the full list.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
-import { FileSpreadsheet, Download } from "lucide-react";
+import { useEffect, useState } from "react";
+import { FileSpreadsheet, FileText, Download, Clock, AlertTriangle, CheckCircle2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,15 +7,58 @@ import type { VintageResult } from "@shared/schema";
 
 interface VintageDownloadCardProps {
   vintage: VintageResult;
+  expiresAt: string;
   onDownload: (vintageName: string) => void;
+  // Download the vintage's PDF report; no PDF button when omitted
+  onDownloadPdf?: () => void;
   isDownloading?: boolean;
 }
 
 export function VintageDownloadCard({
   vintage,
+  expiresAt,
   onDownload,
+  onDownloadPdf,
   isDownloading = false,
 }: VintageDownloadCardProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingMs = new Date(expiresAt).getTime() - now;
+  const isExpired = remainingMs <= 0;
+
+  const formatRemaining = (ms: number) => {
+    const minutes = Math.ceil(ms / (60 * 1000));
+    if (minutes < 60) return minutes + "m";
+    const hours = Math.floor(minutes / 60);
+    return hours + "h " + (minutes % 60) + "m";
+  };
+
+  const reconciliation = vintage.reconciliation;
+  const attentionCount = reconciliation
+    ? reconciliation.breakCount + reconciliation.orphanCount
+    : 0;
+
+  const formatRate = (rate: number | null) =>
+    rate === null ? "n/a" : (rate * 100).toFixed(1) + "%";
+
+  const formatMultiple = (value: number | null) =>
+    value === null ? "n/a" : value.toFixed(2) + "x";
+
+  const metrics = vintage.metrics;
+  const multiples = metrics
+    ? ([
+        ["TVPI", metrics.tvpi],
+        ["DPI", metrics.dpi],
+        ["RVPI", metrics.rvpi],
+        ["MOIC", metrics.moic],
+      ] as const)
+    : [];
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
@@ -40,9 +84,15 @@ export function VintageDownloadCard({
           </div>
 
           <div className="flex flex-wrap gap-2">
-            <Badge variant="secondary" className="font-mono text-xs">
-              3 Sheets
-            </Badge>
+            {vintage.sheetCount !== undefined && (
+              <Badge
+                variant="secondary"
+                className="font-mono text-xs"
+                data-testid={`text-sheet-count-${vintage.vintageName}`}
+              >
+                {vintage.sheetCount} Sheet{vintage.sheetCount !== 1 ? "s" : ""}
+              </Badge>
+            )}
             <Badge variant="secondary" className="font-mono text-xs" data-testid={`text-realized-count-${vintage.vintageName}`}>
               {vintage.realizedRowCount} Realized
             </Badge>
@@ -52,17 +102,101 @@ export function VintageDownloadCard({
             <Badge variant="secondary" className="font-mono text-xs">
               {formatFileSize(vintage.fileSize)}
             </Badge>
+            <Badge
+              variant={isExpired ? "destructive" : "outline"}
+              className="font-mono text-xs"
+              data-testid={`text-expiry-${vintage.vintageName}`}
+            >
+              <Clock className="h-3 w-3 mr-1" />
+              {isExpired ? "Expired" : `Expires in ${formatRemaining(remainingMs)}`}
+            </Badge>
+            {vintage.returns && (
+              <Badge
+                variant="outline"
+                className="font-mono text-xs"
+                title={`As of ${vintage.returns.asOf}`}
+                data-testid={`text-xirr-${vintage.vintageName}`}
+              >
+                IRR {formatRate(vintage.returns.xirr)}
+              </Badge>
+            )}
+            {vintage.twr && (
+              <Badge
+                variant="outline"
+                className="font-mono text-xs"
+                title={`${vintage.twr.months.length} month${vintage.twr.months.length !== 1 ? "s" : ""}, ${vintage.twr.method} linking`}
+                data-testid={`text-twr-${vintage.vintageName}`}
+              >
+                TWR {formatRate(vintage.twr.cumulative)}
+              </Badge>
+            )}
+            {reconciliation && (
+              <Badge
+                variant={attentionCount > 0 ? "destructive" : "outline"}
+                className="font-mono text-xs"
+                data-testid={`text-reconciliation-${vintage.vintageName}`}
+              >
+                {attentionCount > 0 ? (
+                  <>
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {attentionCount} to reconcile
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle2 className="h-3 w-3 mr-1" />
+                    Reconciled
+                  </>
+                )}
+              </Badge>
+            )}
           </div>
 
+          {multiples.length > 0 && (
+            <div className="flex flex-wrap gap-2" data-testid={`metrics-${vintage.vintageName}`}>
+              {multiples.map(([label, value]) => (
+                <Badge
+                  key={label}
+                  variant="outline"
+                  className="font-mono text-xs"
+                  data-testid={`text-${label.toLowerCase()}-${vintage.vintageName}`}
+                >
+                  {label} {formatMultiple(value)}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {reconciliation && attentionCount > 0 && (
+            <p
+              className="text-xs text-muted-foreground font-mono truncate"
+              title={reconciliation.breaks.map((line) => line.symbol).join(", ")}
+              data-testid={`text-reconciliation-breaks-${vintage.vintageName}`}
+            >
+              Check: {reconciliation.breaks.map((line) => line.symbol).join(", ")}
+            </p>
+          )}
+
           <Button
             onClick={() => onDownload(vintage.vintageName)}
-            disabled={isDownloading}
+            disabled={isDownloading || isExpired}
             className="w-full"
             data-testid={`button-download-${vintage.vintageName}`}
           >
             <Download className="h-4 w-4 mr-2" />
             Download {vintage.vintageName} Portfolio
           </Button>
+          {onDownloadPdf && (
+            <Button
+              variant="outline"
+              onClick={onDownloadPdf}
+              disabled={isDownloading || isExpired}
+              className="w-full"
+              data-testid={`button-download-pdf-${vintage.vintageName}`}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Download PDF Report
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
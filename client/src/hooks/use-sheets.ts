@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SheetsResponse, SourceFileKind } from "@shared/schema";
+
+/**
+ * List the sheets of a selected upload, with detected header rows and
+ * row counts, so the user can choose which ones to read
+ */
+export function useSheets(file: File | null, kind: SourceFileKind, mappingProfile: string) {
+  return useQuery<SheetsResponse>({
+    queryKey: ["/api/sheets", kind, mappingProfile, file?.name, file?.size, file?.lastModified],
+    enabled: !!file,
+    queryFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("kind", kind);
+      formData.append("mappingProfile", mappingProfile);
+
+      const response = await fetch("/api/sheets", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to read sheets");
+      }
+
+      return response.json();
+    },
+  });
+}
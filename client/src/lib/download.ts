@@ -0,0 +1,32 @@
+/**
+ * Fetch a file from the API and hand it to the browser as a download
+ */
+export async function downloadFile(url: string, filename: string): Promise<void> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error("Failed to download file");
+  }
+
+  const blob = await response.blob();
+  const objectUrl = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(objectUrl);
+  document.body.removeChild(a);
+}
+
+export function vintageDownloadUrl(runId: string, vintageName: string): string {
+  return `/api/download/${runId}/${encodeURIComponent(vintageName)}`;
+}
+
+export function reportDownloadUrl(runId: string, name: string): string {
+  return `/api/runs/${runId}/reports/${encodeURIComponent(name)}`;
+}
+
+export function archiveDownloadUrl(runId: string): string {
+  return `/api/runs/${runId}/archive`;
+}
@@ -0,0 +1,225 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import {
+  AlertTriangle,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Loader2,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadFile, reportDownloadUrl, vintageDownloadUrl } from "@/lib/download";
+import type { ProcessFilesResponse, RunRecord } from "@shared/schema";
+
+export default function History() {
+  const { toast } = useToast();
+  const { data: runs, isLoading } = useQuery<RunRecord[]>({
+    queryKey: ["/api/runs"],
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await apiRequest("POST", `/api/runs/${runId}/reprocess`);
+      return response.json() as Promise<ProcessFilesResponse>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/runs"] });
+      toast({
+        title: "Run re-processed",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error re-processing run",
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      await apiRequest("DELETE", `/api/runs/${runId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/runs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error deleting run",
+        description: error.message,
+      });
+    },
+  });
+
+  const handleDownload = async (url: string, filename: string) => {
+    try {
+      await downloadFile(url, filename);
+      toast({
+        title: "Download started",
+        description: filename,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const sumRows = (run: RunRecord, key: "realizedRowCount" | "unrealizedRowCount") =>
+    run.vintages.reduce((total, vintage) => total + vintage[key], 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container max-w-6xl mx-auto px-6 py-12">
+        <div className="space-y-3 mb-8">
+          <h2 className="text-3xl font-semibold text-foreground">Run History</h2>
+          <p className="text-base text-muted-foreground">
+            Re-download workbooks from earlier runs or re-process their source
+            files with the current generator. Runs are deleted with their files
+            once they expire, so only unexpired runs are listed.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !runs || runs.length === 0 ? (
+          <Card className="bg-muted/50">
+            <CardContent className="p-6 text-center space-y-3">
+              <p className="text-sm text-muted-foreground" data-testid="text-no-runs">
+                No runs yet.
+              </p>
+              <Button asChild variant="outline" size="sm">
+                <Link href="/">Process Files</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {runs.map((run) => (
+              <Card key={run.runId} data-testid={`card-run-${run.runId}`}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <h3 className="font-semibold text-foreground">
+                        {new Date(run.createdAt).toLocaleString()}
+                      </h3>
+                      <p
+                        className="text-xs text-muted-foreground"
+                        data-testid={`text-expires-${run.runId}`}
+                      >
+                        Expires {new Date(run.expiresAt).toLocaleString()}
+                      </p>
+                      <p className="text-sm text-muted-foreground font-mono truncate">
+                        {run.sourceFiles.map((file) => file.filename).join(" · ")}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reprocessMutation.mutate(run.runId)}
+                        disabled={reprocessMutation.isPending}
+                        data-testid={`button-reprocess-${run.runId}`}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Re-process
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(run.runId)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-${run.runId}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="default" className="font-mono text-xs">
+                      {run.vintages.length} Vintage{run.vintages.length !== 1 ? "s" : ""}
+                    </Badge>
+                    <Badge variant="secondary" className="font-mono text-xs">
+                      {sumRows(run, "realizedRowCount")} Realized
+                    </Badge>
+                    <Badge variant="secondary" className="font-mono text-xs">
+                      {sumRows(run, "unrealizedRowCount")} Unrealized
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {run.lotMethod.toUpperCase()}
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs">
+                      v{run.generatorVersion}
+                    </Badge>
+                  </div>
+
+                  <Separator />
+
+                  <div className="flex flex-wrap gap-2">
+                    {run.vintages.map((vintage) => (
+                      <Button
+                        key={vintage.vintageName}
+                        variant="secondary"
+                        size="sm"
+                        onClick={() =>
+                          handleDownload(
+                            vintageDownloadUrl(run.runId, vintage.vintageName),
+                            vintage.filename
+                          )
+                        }
+                        data-testid={`button-download-${run.runId}-${vintage.vintageName}`}
+                      >
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        {vintage.vintageName}
+                        <Download className="h-3 w-3 ml-2" />
+                      </Button>
+                    ))}
+                    {run.reports.map((report) => (
+                      <Button
+                        key={report.name}
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          handleDownload(reportDownloadUrl(run.runId, report.name), report.filename)
+                        }
+                        data-testid={`button-report-${run.runId}-${report.name}`}
+                      >
+                        {report.name === "validation" ? (
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                        ) : report.filename.toLowerCase().endsWith(".pdf") ? (
+                          <FileText className="h-4 w-4 mr-2" />
+                        ) : (
+                          <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        )}
+                        {report.filename}
+                        <Download className="h-3 w-3 ml-2" />
+                      </Button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
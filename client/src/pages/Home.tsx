@@ -1,34 +1,146 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { FileSpreadsheet, Loader2, CheckCircle2 } from "lucide-react";
-import { ThemeToggle } from "@/components/ThemeToggle";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { FileSpreadsheet, Loader2, CheckCircle2, Eye, Download, Layers } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { DataPreviewTable } from "@/components/DataPreviewTable";
+import { DuplicateOptionsPicker } from "@/components/DuplicateOptionsPicker";
 import { FileUploadZone } from "@/components/FileUploadZone";
+import { ValidationSummaryCard } from "@/components/ValidationSummaryCard";
 import { VintageDownloadCard } from "@/components/VintageDownloadCard";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { ProcessFilesResponse } from "@shared/schema";
+import { useSheets } from "@/hooks/use-sheets";
+import { queryClient } from "@/lib/queryClient";
+import {
+  archiveDownloadUrl,
+  downloadFile,
+  reportDownloadUrl,
+  vintageDownloadUrl,
+} from "@/lib/download";
+import type {
+  DuplicateOptions,
+  LotMethod,
+  WashSaleScope,
+  MappingProfile,
+  PreviewResponse,
+  ProcessFilesResponse,
+  ReportFile,
+  SheetSelection,
+  SourceSheet,
+  TwrMethod,
+} from "@shared/schema";
+
+const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  hifo: "HIFO (highest cost)",
+  specific: "Specific identification",
+};
+
+const WASH_SALE_SCOPE_LABELS: Record<WashSaleScope, string> = {
+  vintage: "Within vintage",
+  all: "Across all vintages",
+};
+
+const TWR_METHOD_LABELS: Record<TwrMethod, string> = {
+  daily: "Daily linking",
+  monthly: "Monthly (Modified Dietz)",
+};
 
 export default function Home() {
   const [realizedFile, setRealizedFile] = useState<File | null>(null);
   const [unrealizedFile, setUnrealizedFile] = useState<File | null>(null);
+  const [pricesFile, setPricesFile] = useState<File | null>(null);
+  const [mappingProfile, setMappingProfile] = useState("default");
+  const [realizedHeaderRow, setRealizedHeaderRow] = useState("");
+  const [unrealizedHeaderRow, setUnrealizedHeaderRow] = useState("");
+  const [realizedSheets, setRealizedSheets] = useState<SheetSelection>();
+  const [unrealizedSheets, setUnrealizedSheets] = useState<SheetSelection>();
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>({
+    key: ["symbol", "tradeDate", "side", "quantity", "price"],
+    handling: "keep",
+  });
+  const [lotMethod, setLotMethod] = useState<LotMethod>("fifo");
+  const [longTermDays, setLongTermDays] = useState(365);
+  const [washSaleScope, setWashSaleScope] = useState<WashSaleScope>("vintage");
+  const [twrMethod, setTwrMethod] = useState<TwrMethod>("daily");
   const [processedVintages, setProcessedVintages] = useState<
     ProcessFilesResponse | null
   >(null);
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
   const { toast } = useToast();
+  const { data: profiles } = useQuery<MappingProfile[]>({
+    queryKey: ["/api/mapping-profiles"],
+  });
+  const { data: realizedSheetInfo } = useSheets(realizedFile, "realized", mappingProfile);
+  const { data: unrealizedSheetInfo } = useSheets(unrealizedFile, "unrealized", mappingProfile);
 
-  const processMutation = useMutation({
+  const buildFormData = () => {
+    if (!realizedFile || !unrealizedFile) {
+      throw new Error("Both files are required");
+    }
+
+    const formData = new FormData();
+    formData.append("realized", realizedFile);
+    formData.append("unrealized", unrealizedFile);
+    if (pricesFile) formData.append("prices", pricesFile);
+    formData.append("mappingProfile", mappingProfile);
+    if (realizedHeaderRow) formData.append("realizedHeaderRow", realizedHeaderRow);
+    if (unrealizedHeaderRow) formData.append("unrealizedHeaderRow", unrealizedHeaderRow);
+    if (realizedSheets) formData.append("realizedSheets", JSON.stringify(realizedSheets));
+    if (unrealizedSheets) formData.append("unrealizedSheets", JSON.stringify(unrealizedSheets));
+    formData.append("duplicateKey", JSON.stringify(duplicateOptions.key));
+    formData.append("duplicateHandling", duplicateOptions.handling);
+    formData.append("lotMethod", lotMethod);
+    formData.append("longTermDays", String(longTermDays));
+    formData.append("washSaleScope", washSaleScope);
+    formData.append("twrMethod", twrMethod);
+    return formData;
+  };
+
+  const previewMutation = useMutation({
     mutationFn: async () => {
-      if (!realizedFile || !unrealizedFile) {
-        throw new Error("Both files are required");
+      const response = await fetch("/api/preview", {
+        method: "POST",
+        body: buildFormData(),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to preview files");
       }
 
-      const formData = new FormData();
-      formData.append("realized", realizedFile);
-      formData.append("unrealized", unrealizedFile);
+      return response.json() as Promise<PreviewResponse>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error previewing files",
+        description: error.message,
+      });
+    },
+  });
+
+  const processMutation = useMutation({
+    mutationFn: async () => {
+      const formData = buildFormData();
 
       const response = await fetch("/api/process-files", {
         method: "POST",
@@ -44,6 +156,7 @@ export default function Home() {
     },
     onSuccess: (data) => {
       setProcessedVintages(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/runs"] });
       toast({
         title: "Success!",
         description: data.message,
@@ -59,22 +172,13 @@ export default function Home() {
   });
 
   const handleDownload = async (vintageName: string) => {
-    try {
-      const response = await fetch(`/api/download/${encodeURIComponent(vintageName)}`);
-      
-      if (!response.ok) {
-        throw new Error("Failed to download file");
-      }
+    if (!processedVintages) return;
 
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${vintageName}_Portfolio.xlsx`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+    try {
+      await downloadFile(
+        vintageDownloadUrl(processedVintages.runId, vintageName),
+        `${vintageName}_Portfolio.xlsx`
+      );
 
       toast({
         title: "Download started",
@@ -89,32 +193,89 @@ export default function Home() {
     }
   };
 
+  const handleArchiveDownload = async () => {
+    if (!processedVintages) return;
+    const filename = `Vintages_${processedVintages.runId}.zip`;
+
+    setIsArchiving(true);
+    try {
+      await downloadFile(archiveDownloadUrl(processedVintages.runId), filename);
+      toast({
+        title: "Download started",
+        description: filename,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const handleReportDownload = async (report: ReportFile) => {
+    if (!processedVintages) return;
+
+    try {
+      await downloadFile(reportDownloadUrl(processedVintages.runId, report.name), report.filename);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  const vintagesNeedingAttention =
+    processedVintages?.vintages.filter(
+      (vintage) =>
+        vintage.reconciliation &&
+        vintage.reconciliation.breakCount + vintage.reconciliation.orphanCount > 0
+    ).length ?? 0;
+
+  const validationReport = processedVintages?.reports.find(
+    (report) => report.name === "validation"
+  );
+  const allVintagesReport = processedVintages?.reports.find(
+    (report) => report.name === "all-vintages"
+  );
+
+  const handleRealizedFileChange = (file: File | null) => {
+    setRealizedFile(file);
+    setRealizedSheets(undefined);
+    setPreview(null);
+  };
+
+  const handleUnrealizedFileChange = (file: File | null) => {
+    setUnrealizedFile(file);
+    setUnrealizedSheets(undefined);
+    setPreview(null);
+  };
+
+  const formatSheets = (sheets: SourceSheet[]) =>
+    sheets.map((sheet) => `${sheet.sheetName} (row ${sheet.headerRow})`).join(", ");
+
   const handleReset = () => {
     setRealizedFile(null);
     setUnrealizedFile(null);
+    setPricesFile(null);
+    setRealizedHeaderRow("");
+    setUnrealizedHeaderRow("");
+    setRealizedSheets(undefined);
+    setUnrealizedSheets(undefined);
     setProcessedVintages(null);
+    setPreview(null);
   };
 
   const canProcess = realizedFile && unrealizedFile && !processMutation.isPending;
+  const canPreview = realizedFile && unrealizedFile && !previewMutation.isPending;
 
   return (
     <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="container max-w-6xl mx-auto px-6 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="rounded-md bg-primary p-2">
-              <FileSpreadsheet className="h-5 w-5 text-primary-foreground" />
-            </div>
-            <div>
-              <h1 className="text-xl font-semibold text-foreground">
-                Portfolio Vintage Analyzer
-              </h1>
-            </div>
-          </div>
-          <ThemeToggle />
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="container max-w-6xl mx-auto px-6 py-12">
         {/* Hero Section */}
@@ -123,7 +284,7 @@ export default function Home() {
             Process Realized and Unrealized Position Data
           </h2>
           <p className="text-base text-muted-foreground max-w-2xl mx-auto">
-            Upload both Excel files to begin analysis. The system will
+            Upload both files to begin analysis. The system will
             automatically detect Vintages and generate separate reports for each
             (CQ1, CQ2, CQ3, and any future Vintages).
           </p>
@@ -139,40 +300,174 @@ export default function Home() {
                     title="Realized Positions"
                     description="Excel file containing all buy/sell transactions"
                     file={realizedFile}
-                    onFileChange={setRealizedFile}
+                    onFileChange={handleRealizedFileChange}
+                    headerRow={realizedHeaderRow}
+                    onHeaderRowChange={setRealizedHeaderRow}
+                    sheets={realizedSheetInfo?.sheets}
+                    sheetSelection={realizedSheets}
+                    onSheetSelectionChange={setRealizedSheets}
                     testId="input-realized-file"
                   />
                   <FileUploadZone
                     title="Unrealized Positions"
                     description="Excel file showing current position values"
                     file={unrealizedFile}
-                    onFileChange={setUnrealizedFile}
+                    onFileChange={handleUnrealizedFileChange}
+                    headerRow={unrealizedHeaderRow}
+                    onHeaderRowChange={setUnrealizedHeaderRow}
+                    sheets={unrealizedSheetInfo?.sheets}
+                    sheetSelection={unrealizedSheets}
+                    onSheetSelectionChange={setUnrealizedSheets}
                     testId="input-unrealized-file"
                   />
                 </div>
 
+                <div className="mt-8 max-w-xl mx-auto">
+                  <FileUploadZone
+                    title="Price History (optional)"
+                    description="Dated prices per symbol for time-weighted returns; interpolated from trades and marks when omitted"
+                    file={pricesFile}
+                    onFileChange={setPricesFile}
+                    testId="input-prices-file"
+                  />
+                </div>
+
                 <Separator className="my-8" />
 
                 <div className="flex flex-col items-center gap-4">
-                  <Button
-                    size="lg"
-                    onClick={() => processMutation.mutate()}
-                    disabled={!canProcess}
-                    className="min-w-[200px]"
-                    data-testid="button-process-files"
-                  >
-                    {processMutation.isPending ? (
-                      <>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">Column mapping</span>
+                    <Select value={mappingProfile} onValueChange={setMappingProfile}>
+                      <SelectTrigger className="w-[200px]" data-testid="select-mapping-profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(profiles ?? [{ name: "default" }]).map((profile) => (
+                          <SelectItem key={profile.name} value={profile.name}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Link
+                      href="/profiles"
+                      className="text-sm text-primary hover:underline"
+                      data-testid="link-manage-profiles"
+                    >
+                      Manage
+                    </Link>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">Lot matching</span>
+                    <Select
+                      value={lotMethod}
+                      onValueChange={(value) => setLotMethod(value as LotMethod)}
+                    >
+                      <SelectTrigger className="w-[200px]" data-testid="select-lot-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {LOT_METHOD_LABELS[method]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-sm text-muted-foreground">Long-term after</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={longTermDays}
+                      onChange={(e) =>
+                        setLongTermDays(Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                      }
+                      className="w-[90px] font-mono"
+                      data-testid="input-long-term-days"
+                    />
+                    <span className="text-sm text-muted-foreground">days</span>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">Wash sales</span>
+                    <Select
+                      value={washSaleScope}
+                      onValueChange={(value) => setWashSaleScope(value as WashSaleScope)}
+                    >
+                      <SelectTrigger className="w-[200px]" data-testid="select-wash-sale-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(WASH_SALE_SCOPE_LABELS) as WashSaleScope[]).map((scope) => (
+                          <SelectItem key={scope} value={scope}>
+                            {WASH_SALE_SCOPE_LABELS[scope]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">Time-weighted return</span>
+                    <Select
+                      value={twrMethod}
+                      onValueChange={(value) => setTwrMethod(value as TwrMethod)}
+                    >
+                      <SelectTrigger className="w-[220px]" data-testid="select-twr-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TWR_METHOD_LABELS) as TwrMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {TWR_METHOD_LABELS[method]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <DuplicateOptionsPicker
+                    options={duplicateOptions}
+                    onOptionsChange={setDuplicateOptions}
+                  />
+
+                  <div className="flex flex-wrap items-center justify-center gap-3">
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      onClick={() => previewMutation.mutate()}
+                      disabled={!canPreview}
+                      className="min-w-[160px]"
+                      data-testid="button-preview-files"
+                    >
+                      {previewMutation.isPending ? (
                         <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                        Processing Files...
-                      </>
-                    ) : (
-                      <>
-                        <FileSpreadsheet className="h-5 w-5 mr-2" />
-                        Process Files
-                      </>
-                    )}
-                  </Button>
+                      ) : (
+                        <Eye className="h-5 w-5 mr-2" />
+                      )}
+                      Preview Data
+                    </Button>
+                    <Button
+                      size="lg"
+                      onClick={() => processMutation.mutate()}
+                      disabled={!canProcess}
+                      className="min-w-[200px]"
+                      data-testid="button-process-files"
+                    >
+                      {processMutation.isPending ? (
+                        <>
+                          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                          Processing Files...
+                        </>
+                      ) : (
+                        <>
+                          <FileSpreadsheet className="h-5 w-5 mr-2" />
+                          Process Files
+                        </>
+                      )}
+                    </Button>
+                  </div>
 
                   {processMutation.isPending && (
                     <p className="text-sm text-muted-foreground animate-pulse">
@@ -183,6 +478,31 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            {/* Data Preview */}
+            {preview && (
+              <Card className="mb-8">
+                <CardContent className="p-8">
+                  <h3 className="font-semibold text-foreground mb-4">Data Preview</h3>
+                  <Tabs defaultValue="realized">
+                    <TabsList>
+                      <TabsTrigger value="realized" data-testid="tab-preview-realized">
+                        Realized
+                      </TabsTrigger>
+                      <TabsTrigger value="unrealized" data-testid="tab-preview-unrealized">
+                        Unrealized
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="realized">
+                      <DataPreviewTable preview={preview.realized} testId="preview-realized" />
+                    </TabsContent>
+                    <TabsContent value="unrealized">
+                      <DataPreviewTable preview={preview.unrealized} testId="preview-unrealized" />
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Instructions */}
             <Card className="bg-muted/50">
               <CardContent className="p-6">
@@ -193,19 +513,19 @@ export default function Home() {
                   <li className="flex items-start gap-2">
                     <CheckCircle2 className="h-4 w-4 text-chart-2 mt-0.5 flex-shrink-0" />
                     <span>
-                      Both files must be Excel format (.xlsx or .xls)
+                      Both files must be Excel (.xlsx or .xls), CSV or TSV format
                     </span>
                   </li>
                   <li className="flex items-start gap-2">
                     <CheckCircle2 className="h-4 w-4 text-chart-2 mt-0.5 flex-shrink-0" />
                     <span>
-                      Each file must contain a column titled "Vintage"
+                      Each file must contain a Vintage column (header names are set by the selected column mapping profile)
                     </span>
                   </li>
                   <li className="flex items-start gap-2">
                     <CheckCircle2 className="h-4 w-4 text-chart-2 mt-0.5 flex-shrink-0" />
                     <span>
-                      Each output file contains 3 sheets: Realized, Unrealized, and Initial Purchase
+                      Each output file contains 12 sheets: Realized, Unrealized, Initial Purchase, Duplicates, Reconciliation, Lots, Capital Gains, Wash Sales, Returns, Vintage Summary, Time-Weighted Return, and Charts
                     </span>
                   </li>
                   <li className="flex items-start gap-2">
@@ -233,25 +553,120 @@ export default function Home() {
                       {processedVintages.vintages.length !== 1 ? "s" : ""}{" "}
                       Processed
                     </Badge>
+                    {vintagesNeedingAttention > 0 && (
+                      <Badge variant="destructive" data-testid="text-reconciliation-attention">
+                        {vintagesNeedingAttention} need
+                        {vintagesNeedingAttention === 1 ? "s" : ""} reconciliation
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-realized-sheets">
+                      Realized: {formatSheets(processedVintages.sourceSheets.realized)}
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-unrealized-sheets">
+                      Unrealized: {formatSheets(processedVintages.sourceSheets.unrealized)}
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-lot-method">
+                      {LOT_METHOD_LABELS[processedVintages.lotMethod]} lots
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-long-term-days">
+                      Long-term &gt; {processedVintages.longTermDays} days
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-wash-sale-scope">
+                      Wash sales: {WASH_SALE_SCOPE_LABELS[processedVintages.washSaleScope].toLowerCase()}
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-twr-method">
+                      TWR: {TWR_METHOD_LABELS[processedVintages.twrMethod].toLowerCase()}
+                    </Badge>
+                    <Badge variant="outline" className="font-mono text-xs" data-testid="text-duplicates">
+                      {processedVintages.duplicates.count} duplicate
+                      {processedVintages.duplicates.count !== 1 ? "s" : ""}{" "}
+                      {processedVintages.duplicates.handling === "keep"
+                        ? "kept"
+                        : processedVintages.duplicates.handling === "drop"
+                          ? "dropped"
+                          : "flagged"}
+                    </Badge>
                   </div>
                 </div>
-                <Button
-                  variant="outline"
-                  onClick={handleReset}
-                  data-testid="button-process-new-files"
-                >
-                  Process New Files
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    onClick={handleArchiveDownload}
+                    disabled={isArchiving}
+                    data-testid="button-download-all"
+                  >
+                    {isArchiving ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    Download All
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleReset}
+                    data-testid="button-process-new-files"
+                  >
+                    Process New Files
+                  </Button>
+                </div>
               </div>
 
+              <ValidationSummaryCard
+                validation={processedVintages.validation}
+                onDownloadReport={
+                  validationReport ? () => handleReportDownload(validationReport) : undefined
+                }
+              />
+
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {processedVintages.vintages.map((vintage) => (
-                  <VintageDownloadCard
-                    key={vintage.vintageName}
-                    vintage={vintage}
-                    onDownload={handleDownload}
-                  />
-                ))}
+                {allVintagesReport && (
+                  <Card className="hover-elevate">
+                    <CardContent className="p-6">
+                      <div className="space-y-4">
+                        <div className="flex items-start gap-3">
+                          <div className="rounded-md bg-primary p-2.5 flex-shrink-0">
+                            <Layers className="h-5 w-5 text-primary-foreground" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h3 className="font-semibold text-foreground text-lg">All Vintages</h3>
+                            <p className="text-sm text-muted-foreground font-mono mt-0.5">
+                              {allVintagesReport.filename}
+                            </p>
+                          </div>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          One summary row per vintage: capital deployed, realized and unrealized
+                          P&amp;L, symbol count and first/last trade date, linked to a sheet per
+                          vintage.
+                        </p>
+                        <Button
+                          onClick={() => handleReportDownload(allVintagesReport)}
+                          className="w-full"
+                          data-testid="button-download-all-vintages"
+                        >
+                          <Download className="h-4 w-4 mr-2" />
+                          Download All Vintages Summary
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+                {processedVintages.vintages.map((vintage) => {
+                  const pdfReport = processedVintages.reports.find(
+                    (report) => report.name === `pdf-${vintage.vintageName}`
+                  );
+                  return (
+                    <VintageDownloadCard
+                      key={vintage.vintageName}
+                      vintage={vintage}
+                      expiresAt={processedVintages.expiresAt}
+                      onDownload={handleDownload}
+                      onDownloadPdf={pdfReport && (() => handleReportDownload(pdfReport))}
+                    />
+                  );
+                })}
               </div>
             </div>
           </>
@@ -262,8 +677,8 @@ export default function Home() {
       <footer className="border-t mt-20">
         <div className="container max-w-6xl mx-auto px-6 py-6">
           <p className="text-xs text-muted-foreground text-center">
-            Data processed securely - files are not permanently stored on our
-            servers
+            Data processed securely - generated files are deleted automatically
+            when they expire and are not permanently stored on our servers
           </p>
         </div>
       </footer>
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { MappingProfileDialog } from "@/components/MappingProfileDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MappingProfile } from "@shared/schema";
+
+const DEFAULT_PROFILE_NAME = "default";
+
+export default function Profiles() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ profile: MappingProfile; isNew: boolean } | null>(
+    null
+  );
+  const { data: profiles, isLoading } = useQuery<MappingProfile[]>({
+    queryKey: ["/api/mapping-profiles"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (profile: MappingProfile) => {
+      await apiRequest("PUT", `/api/mapping-profiles/${encodeURIComponent(profile.name)}`, profile);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mapping-profiles"] });
+      setEditing(null);
+      toast({ title: "Mapping profile saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error saving mapping profile",
+        description: error.message,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/mapping-profiles/${encodeURIComponent(name)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mapping-profiles"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error deleting mapping profile",
+        description: error.message,
+      });
+    },
+  });
+
+  const handleNew = () => {
+    const template = profiles?.find((p) => p.name === DEFAULT_PROFILE_NAME);
+    if (template) {
+      setEditing({ profile: { ...template, name: "" }, isNew: true });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container max-w-6xl mx-auto px-6 py-12">
+        <div className="flex items-start justify-between gap-4 mb-8">
+          <div className="space-y-3">
+            <h2 className="text-3xl font-semibold text-foreground">Column Mapping Profiles</h2>
+            <p className="text-base text-muted-foreground">
+              Map the columns of each broker's export to the fields used by the
+              generated formulas.
+            </p>
+          </div>
+          <Button onClick={handleNew} disabled={!profiles} data-testid="button-new-profile">
+            <Plus className="h-4 w-4 mr-2" />
+            New Profile
+          </Button>
+        </div>
+
+        {isLoading || !profiles ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {profiles.map((profile) => {
+              const isDefault = profile.name === DEFAULT_PROFILE_NAME;
+              return (
+                <Card key={profile.name} data-testid={`card-profile-${profile.name}`}>
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <h3 className="font-semibold text-foreground text-lg truncate">
+                          {profile.name}
+                        </h3>
+                        {isDefault && (
+                          <Badge variant="secondary" className="text-xs">
+                            Built-in
+                          </Badge>
+                        )}
+                      </div>
+                      {!isDefault && (
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setEditing({ profile, isNew: false })}
+                            data-testid={`button-edit-profile-${profile.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(profile.name)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-profile-${profile.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+
+                    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                      {Object.entries(profile.realized).map(([field, header]) => (
+                        <div key={field} className="contents">
+                          <dt className="text-muted-foreground">{field}</dt>
+                          <dd className="font-mono text-foreground truncate">{header}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {editing && (
+        <MappingProfileDialog
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+          initialProfile={editing.profile}
+          isNew={editing.isNew}
+          isSaving={saveMutation.isPending}
+          onSave={(profile) => saveMutation.mutate(profile)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import * as XLSX from "xlsx";
+import { sheetRef, type ResolvedMapping } from "./columnMapping";
+import { toExcelSerial } from "./excelDates";
+import type { SymbolCapital } from "./vintageMetrics";
+import type { LotLine } from "./taxLots";
+
+export const ALL_VINTAGES_REPORT_NAME = "all-vintages";
+export const ALL_VINTAGES_REPORT_FILENAME = "All_Vintages.xlsx";
+
+const SUMMARY_SHEET = "Summary";
+
+// Characters Excel does not allow in sheet names
+const INVALID_SHEET_CHARACTERS = /[\\/?*[\]:]/g;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// One symbol's line on a vintage sheet
+interface SymbolOverview {
+  symbol: string;
+  capitalDeployed: number;
+  // Undefined when the vintage's lots were not matched
+  realizedPnl?: number;
+  unrealizedPnl?: number;
+  firstTrade?: number;
+  lastTrade?: number;
+}
+
+export interface VintageOverview {
+  vintageName: string;
+  symbols: SymbolOverview[];
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Per-symbol overview of a vintage: capital deployed (BUY amounts), realized
+ * P&L of its closed lots, unrealized P&L of its open lots against their
+ * residual market value, and its first and last realized trade dates
+ */
+export function collectVintageOverview(
+  vintageName: string,
+  realizedRows: any[],
+  mapping: ResolvedMapping,
+  capital: SymbolCapital[],
+  lots: LotLine[] | undefined
+): VintageOverview {
+  const { symbol, tradeDate } = mapping.realized;
+  const dates = new Map<string, number[]>();
+  for (const row of realizedRows) {
+    const name = String(row[symbol!] ?? "").trim();
+    const date = toExcelSerial(row[tradeDate!]);
+    if (name && date !== undefined) {
+      dates.set(name, [...(dates.get(name) ?? []), Math.floor(date)]);
+    }
+  }
+
+  const capitalBySymbol = new Map(capital.map((line) => [line.symbol, line]));
+  const names = Array.from(
+    new Set([...Array.from(capitalBySymbol.keys()), ...Array.from(dates.keys())])
+  ).sort();
+
+  const lotTotal = (name: string, status: LotLine["status"], pick: (line: LotLine) => number) =>
+    (lots ?? [])
+      .filter((line) => line.symbol === name && line.status === status)
+      .reduce((total, line) => total + pick(line), 0);
+
+  return {
+    vintageName,
+    symbols: names.map((name) => {
+      const symbolDates = dates.get(name) ?? [];
+      const line = capitalBySymbol.get(name);
+      return {
+        symbol: name,
+        capitalDeployed: line?.paidIn ?? 0,
+        realizedPnl: lots && lotTotal(name, "closed", (lot) => lot.gain ?? 0),
+        unrealizedPnl:
+          lots && (line?.residualValue ?? 0) - lotTotal(name, "open", (lot) => lot.costBasis ?? 0),
+        firstTrade: symbolDates.length > 0 ? Math.min(...symbolDates) : undefined,
+        lastTrade: symbolDates.length > 0 ? Math.max(...symbolDates) : undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Sheet name per vintage: invalid characters replaced, cut to Excel's 31
+ * character limit and made unique, never clashing with the Summary sheet
+ */
+function vintageSheetNames(vintages: VintageOverview[]): string[] {
+  const used = new Set([SUMMARY_SHEET.toLowerCase()]);
+  return vintages.map(({ vintageName }) => {
+    const base =
+      vintageName.replace(INVALID_SHEET_CHARACTERS, "_").slice(0, MAX_SHEET_NAME_LENGTH) || "Vintage";
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function sum(values: (number | undefined)[]): number {
+  return values.reduce<number>((total, value) => total + (value ?? 0), 0);
+}
+
+function moneyCell(value: number | undefined, formula?: string): XLSX.CellObject {
+  if (value === undefined) return formula ? { f: formula, t: "s", v: "" } : { t: "s", v: "" };
+  return formula ? { f: formula, v: value, t: "n", z: "0.00" } : { v: value, t: "n", z: "0.00" };
+}
+
+function dateCell(value: number | undefined, formula: string): XLSX.CellObject {
+  return value === undefined
+    ? { f: formula, t: "s", v: "" }
+    : { f: formula, v: value, t: "n", z: "yyyy-mm-dd" };
+}
+
+function buildVintageSheet(vintage: VintageOverview): XLSX.WorkSheet {
+  const sheet: XLSX.WorkSheet = {};
+  const headers = [
+    "Symbol",
+    "Capital Deployed",
+    "Realized P&L",
+    "Unrealized P&L",
+    "First Trade",
+    "Last Trade",
+  ];
+  headers.forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: 0, c })] = { v: header, t: "s" };
+  });
+
+  vintage.symbols.forEach((line, index) => {
+    const r = index + 2;
+    sheet[`A${r}`] = { v: line.symbol, t: "s" };
+    sheet[`B${r}`] = moneyCell(line.capitalDeployed);
+    sheet[`C${r}`] = moneyCell(line.realizedPnl);
+    sheet[`D${r}`] = moneyCell(line.unrealizedPnl);
+    sheet[`E${r}`] =
+      line.firstTrade === undefined ? { t: "s", v: "" } : { v: line.firstTrade, t: "n", z: "yyyy-mm-dd" };
+    sheet[`F${r}`] =
+      line.lastTrade === undefined ? { t: "s", v: "" } : { v: line.lastTrade, t: "n", z: "yyyy-mm-dd" };
+  });
+
+  const back = vintage.symbols.length + 3;
+  sheet[`A${back}`] = { v: "Back to Summary", t: "s", l: { Target: `#${SUMMARY_SHEET}!A1` } };
+
+  sheet["!ref"] = `A1:F${back}`;
+  sheet["!cols"] = [{ wch: 16 }, { wch: 17 }, { wch: 14 }, { wch: 15 }, { wch: 12 }, { wch: 12 }];
+  return sheet;
+}
+
+/**
+ * Build the All Vintages workbook: a Summary sheet with one row per vintage
+ * (capital deployed, realized and unrealized P&L, symbol count, first and
+ * last trade date), then one sheet per vintage with the same per symbol.
+ * Summary figures are formulas over the vintage sheets, and each vintage
+ * name links to its sheet.
+ */
+export function generateAllVintagesWorkbook(vintages: VintageOverview[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const sheetNames = vintageSheetNames(vintages);
+  const summary: XLSX.WorkSheet = {};
+
+  const headers = [
+    "Vintage",
+    "Capital Deployed",
+    "Realized P&L",
+    "Unrealized P&L",
+    "Symbols",
+    "First Trade",
+    "Last Trade",
+  ];
+  headers.forEach((header, c) => {
+    summary[XLSX.utils.encode_cell({ r: 0, c })] = { v: header, t: "s" };
+  });
+
+  vintages.forEach((vintage, index) => {
+    const r = index + 2;
+    const ref = sheetRef(sheetNames[index]);
+    const lastRow = Math.max(vintage.symbols.length, 1) + 1;
+    const range = (column: string) => `${ref}!${column}2:${column}${lastRow}`;
+    const { symbols } = vintage;
+    const matched = symbols.length === 0 || symbols[0].realizedPnl !== undefined;
+    const firstDates = symbols.map((line) => line.firstTrade).filter((d): d is number => d !== undefined);
+    const lastDates = symbols.map((line) => line.lastTrade).filter((d): d is number => d !== undefined);
+
+    summary[`A${r}`] = {
+      v: vintage.vintageName,
+      t: "s",
+      l: { Target: `#${ref}!A1` },
+    };
+    summary[`B${r}`] = moneyCell(sum(symbols.map((line) => line.capitalDeployed)), `SUM(${range("B")})`);
+    summary[`C${r}`] = matched
+      ? moneyCell(sum(symbols.map((line) => line.realizedPnl)), `SUM(${range("C")})`)
+      : moneyCell(undefined);
+    summary[`D${r}`] = matched
+      ? moneyCell(sum(symbols.map((line) => line.unrealizedPnl)), `SUM(${range("D")})`)
+      : moneyCell(undefined);
+    summary[`E${r}`] = { f: `COUNTA(${range("A")})`, v: symbols.length, t: "n" };
+    summary[`F${r}`] = dateCell(
+      firstDates.length > 0 ? Math.min(...firstDates) : undefined,
+      `IF(COUNT(${range("E")})=0,"",MIN(${range("E")}))`
+    );
+    summary[`G${r}`] = dateCell(
+      lastDates.length > 0 ? Math.max(...lastDates) : undefined,
+      `IF(COUNT(${range("F")})=0,"",MAX(${range("F")}))`
+    );
+  });
+
+  const totalRow = vintages.length + 2;
+  const column = (letter: string) => `${letter}2:${letter}${Math.max(totalRow - 1, 2)}`;
+  const all = vintages.flatMap(({ symbols }) => symbols);
+  const allFirst = all.map((line) => line.firstTrade).filter((d): d is number => d !== undefined);
+  const allLast = all.map((line) => line.lastTrade).filter((d): d is number => d !== undefined);
+  summary[`A${totalRow}`] = { v: "Total", t: "s" };
+  summary[`B${totalRow}`] = moneyCell(sum(all.map((line) => line.capitalDeployed)), `SUM(${column("B")})`);
+  summary[`C${totalRow}`] = moneyCell(sum(all.map((line) => line.realizedPnl)), `SUM(${column("C")})`);
+  summary[`D${totalRow}`] = moneyCell(sum(all.map((line) => line.unrealizedPnl)), `SUM(${column("D")})`);
+  summary[`E${totalRow}`] = { f: `SUM(${column("E")})`, v: all.length, t: "n" };
+  summary[`F${totalRow}`] = dateCell(
+    allFirst.length > 0 ? Math.min(...allFirst) : undefined,
+    `IF(COUNT(${column("F")})=0,"",MIN(${column("F")}))`
+  );
+  summary[`G${totalRow}`] = dateCell(
+    allLast.length > 0 ? Math.max(...allLast) : undefined,
+    `IF(COUNT(${column("G")})=0,"",MAX(${column("G")}))`
+  );
+
+  summary["!ref"] = `A1:G${totalRow}`;
+  summary["!cols"] = [
+    { wch: 16 },
+    { wch: 17 },
+    { wch: 14 },
+    { wch: 15 },
+    { wch: 9 },
+    { wch: 12 },
+    { wch: 12 },
+  ];
+  XLSX.utils.book_append_sheet(workbook, summary, SUMMARY_SHEET);
+
+  vintages.forEach((vintage, index) => {
+    XLSX.utils.book_append_sheet(workbook, buildVintageSheet(vintage), sheetNames[index]);
+  });
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import type { Writable } from "stream";
+import archiver from "archiver";
+import * as XLSX from "xlsx";
+import type { ArchiveManifest, RunRecord } from "@shared/schema";
+
+export const ARCHIVE_MANIFEST_FILENAME = "manifest.json";
+export const ARCHIVE_INDEX_FILENAME = "Index.xlsx";
+
+// A vintage workbook to put in the archive
+export interface ArchiveFile {
+  vintageName: string;
+  buffer: Buffer;
+}
+
+/**
+ * Describe a run's vintage workbooks: row counts from the run record, size
+ * and SHA-256 checksum of the stored bytes
+ */
+export function buildArchiveManifest(record: RunRecord, files: ArchiveFile[]): ArchiveManifest {
+  return {
+    runId: record.runId,
+    createdAt: record.createdAt,
+    generatorVersion: record.generatorVersion,
+    files: files.map(({ vintageName, buffer }) => {
+      const vintage = record.vintages.find((v) => v.vintageName === vintageName)!;
+      return {
+        vintageName,
+        filename: vintage.filename,
+        realizedRowCount: vintage.realizedRowCount,
+        unrealizedRowCount: vintage.unrealizedRowCount,
+        fileSize: buffer.length,
+        sha256: createHash("sha256").update(buffer).digest("hex"),
+      };
+    }),
+  };
+}
+
+/**
+ * Readable copy of the manifest: the run on top, then one row per workbook
+ * with its file name linked to the workbook next to it in the archive
+ */
+export function generateIndexWorkbook(manifest: ArchiveManifest): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ["Run", manifest.runId],
+    ["Created", manifest.createdAt],
+    ["Generator version", manifest.generatorVersion],
+    [],
+    ["Vintage", "File", "Realized Rows", "Unrealized Rows", "File Size (bytes)", "SHA-256"],
+    ...manifest.files.map((file) => [
+      file.vintageName,
+      file.filename,
+      file.realizedRowCount,
+      file.unrealizedRowCount,
+      file.fileSize,
+      file.sha256,
+    ]),
+  ]);
+  manifest.files.forEach((file, index) => {
+    sheet[`B${index + 6}`].l = { Target: file.filename };
+  });
+  sheet["!cols"] = [{ wch: 18 }, { wch: 38 }, { wch: 14 }, { wch: 16 }, { wch: 17 }, { wch: 66 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Index");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+/**
+ * Stream a ZIP of the vintage workbooks, the JSON manifest and the index
+ * workbook to the destination. Resolves once the archive is finalized.
+ */
+export async function writeRunArchive(
+  destination: Writable,
+  manifest: ArchiveManifest,
+  files: ArchiveFile[]
+): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const done = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    archive.on("end", resolve);
+  });
+  archive.pipe(destination);
+
+  files.forEach(({ buffer }, index) => {
+    archive.append(buffer, { name: manifest.files[index].filename });
+  });
+  archive.append(JSON.stringify(manifest, null, 2), { name: ARCHIVE_MANIFEST_FILENAME });
+  archive.append(generateIndexWorkbook(manifest), { name: ARCHIVE_INDEX_FILENAME });
+
+  await archive.finalize();
+  return done;
+}
@@ -0,0 +1,150 @@
+import * as XLSX from "xlsx";
+import type { LotLine } from "./taxLots";
+
+// Lots held longer than this many days are long-term unless the run says otherwise
+export const DEFAULT_LONG_TERM_DAYS = 365;
+
+export type GainTerm = "Short-term" | "Long-term";
+
+const TERMS: GainTerm[] = ["Short-term", "Long-term"];
+
+// Row of the threshold cell, the totals table and the lot table headers
+const THRESHOLD_ROW = 1;
+const TOTALS_HEADER_ROW = 3;
+const HEADER_ROW = TOTALS_HEADER_ROW + TERMS.length + 3;
+
+// A closed lot slice classified by holding period
+export interface CapitalGainLine extends LotLine {
+  term: GainTerm;
+}
+
+/**
+ * Classify every closed lot slice as short- or long-term. A lot is
+ * long-term when held more than `longTermDays` days.
+ */
+export function classifyGains(lines: LotLine[] | undefined, longTermDays: number): CapitalGainLine[] {
+  return (lines ?? [])
+    .filter((line) => line.status === "closed")
+    .map((line) => ({
+      ...line,
+      term: (line.holdingDays ?? 0) > longTermDays ? "Long-term" : "Short-term",
+    }));
+}
+
+/**
+ * Build the Capital Gains sheet: the long-term threshold, per-term totals
+ * as SUMIFS formulas, then one row per closed lot slice. Gain/Loss includes
+ * any wash sale adjustment. Holding days and the term are formulas too, so
+ * editing the threshold reclassifies lots.
+ */
+export function buildCapitalGainsSheet(
+  lines: CapitalGainLine[],
+  longTermDays: number
+): XLSX.WorkSheet {
+  const sheet: XLSX.WorkSheet = {};
+  const threshold = `$B$${THRESHOLD_ROW}`;
+  sheet[`A${THRESHOLD_ROW}`] = { v: "Long-term after (days)", t: "s" };
+  sheet[`B${THRESHOLD_ROW}`] = { v: longTermDays, t: "n" };
+
+  // Lot table: rows firstRow..lastRow, at least one so the ranges stay valid
+  const firstRow = HEADER_ROW + 1;
+  const lastRow = HEADER_ROW + Math.max(lines.length, 1);
+  const range = (column: string) => `$${column}$${firstRow}:$${column}$${lastRow}`;
+
+  // Totals columns: header, lot table column summed, and the cached value
+  const totals: { header: string; source: string; pick: (line: CapitalGainLine) => number }[] = [
+    { header: "Proceeds", source: "F", pick: (line) => line.proceeds ?? 0 },
+    { header: "Cost Basis", source: "E", pick: (line) => line.costBasis ?? 0 },
+    { header: "Gain/Loss", source: "G", pick: (line) => line.gain ?? 0 },
+    { header: "Adjustment", source: "J", pick: (line) => line.adjustment ?? 0 },
+  ];
+  const sum = (selected: CapitalGainLine[], pick: (line: CapitalGainLine) => number) =>
+    selected.reduce((total, line) => total + pick(line), 0);
+
+  sheet[`A${TOTALS_HEADER_ROW}`] = { v: "Term", t: "s" };
+  totals.forEach(({ header }, index) => {
+    sheet[XLSX.utils.encode_cell({ r: TOTALS_HEADER_ROW - 1, c: index + 1 })] = {
+      v: header,
+      t: "s",
+    };
+  });
+
+  TERMS.forEach((term, termIndex) => {
+    const r = TOTALS_HEADER_ROW + 1 + termIndex;
+    const termLines = lines.filter((line) => line.term === term);
+    sheet[`A${r}`] = { v: term, t: "s" };
+    totals.forEach(({ source, pick }, index) => {
+      sheet[XLSX.utils.encode_cell({ r: r - 1, c: index + 1 })] = {
+        f: `SUMIFS(${range(source)},${range("I")},A${r})`,
+        v: sum(termLines, pick),
+        t: "n",
+        z: "0.00",
+      };
+    });
+  });
+
+  const totalRow = TOTALS_HEADER_ROW + TERMS.length + 1;
+  sheet[`A${totalRow}`] = { v: "Total", t: "s" };
+  totals.forEach(({ pick }, index) => {
+    const column = XLSX.utils.encode_col(index + 1);
+    sheet[`${column}${totalRow}`] = {
+      f: `SUM(${column}${TOTALS_HEADER_ROW + 1}:${column}${totalRow - 1})`,
+      v: sum(lines, pick),
+      t: "n",
+      z: "0.00",
+    };
+  });
+
+  const headers = [
+    "Symbol",
+    "Lot",
+    "Acquired",
+    "Sold",
+    "Cost Basis",
+    "Proceeds",
+    "Gain/Loss",
+    "Holding Days",
+    "Term",
+    "Adjustment",
+  ];
+  headers.forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: HEADER_ROW - 1, c })] = { v: header, t: "s" };
+  });
+
+  if (lines.length === 0) {
+    sheet[`A${firstRow}`] = { v: "No closed lots", t: "s" };
+  }
+
+  lines.forEach((line, index) => {
+    const r = firstRow + index;
+    sheet[`A${r}`] = { v: line.symbol, t: "s" };
+    sheet[`B${r}`] = { v: line.lot, t: "s" };
+    sheet[`C${r}`] = { v: line.acquired, t: "n", z: "yyyy-mm-dd" };
+    sheet[`D${r}`] = { v: line.sold, t: "n", z: "yyyy-mm-dd" };
+    sheet[`E${r}`] = { v: line.costBasis, t: "n", z: "0.00" };
+    sheet[`F${r}`] = { v: line.proceeds, t: "n", z: "0.00" };
+    sheet[`G${r}`] = { f: `F${r}-E${r}+J${r}`, v: line.gain, t: "n", z: "0.00" };
+    sheet[`H${r}`] = { f: `D${r}-C${r}`, v: line.holdingDays, t: "n" };
+    sheet[`I${r}`] = {
+      f: `IF(H${r}>${threshold},"Long-term","Short-term")`,
+      v: line.term,
+      t: "s",
+    };
+    if (line.adjustment !== undefined) sheet[`J${r}`] = { v: line.adjustment, t: "n", z: "0.00" };
+  });
+
+  sheet["!ref"] = `A1:J${lastRow}`;
+  sheet["!cols"] = [
+    { wch: 22 },
+    { wch: 16 },
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 13 },
+    { wch: 12 },
+    { wch: 12 },
+  ];
+  return sheet;
+}
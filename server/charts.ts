@@ -0,0 +1,441 @@
+import * as XLSX from "xlsx";
+import type JSZip from "jszip";
+import { excelString, sheetRef, tableColumn, type ResolvedMapping } from "./columnMapping";
+import { toExcelSerial } from "./excelDates";
+import { collectVintageOverview } from "./allVintages";
+import type { SymbolCapital } from "./vintageMetrics";
+import type { LotLine } from "./taxLots";
+import {
+  CONTENT_TYPES,
+  RELATIONSHIP_TYPES,
+  addContentType,
+  addRelationship,
+  escapeXml,
+  insertWorksheetElement,
+  nextPartPath,
+  worksheetPath,
+} from "./xlsxPackage";
+
+export const CHARTS_SHEET = "Charts";
+
+// Data tables start under a title row and a header row
+const TABLE_HEADER_ROW = 2;
+const FIRST_DATA_ROW = TABLE_HEADER_ROW + 1;
+
+// Charts sit right of the data tables, stacked top to bottom
+const CHART_COLUMN = 11;
+const CHART_WIDTH_COLUMNS = 9;
+const CHART_HEIGHT_ROWS = 18;
+
+const DATE_FORMAT = "yyyy-mm-dd";
+const MONEY_FORMAT = "0.00";
+
+export interface VintageChartData {
+  // Cumulative BUY amounts at each date a BUY was made
+  deployed: { date: number; cumulative: number }[];
+  // Realized and unrealized P&L per symbol; undefined when lots were not matched
+  pnl?: { symbol: string; realized: number; unrealized: number }[];
+  // Residual market value of each symbol still held
+  positions: { symbol: string; marketValue: number }[];
+}
+
+type ChartKind = "line" | "bar" | "pie";
+
+// A chart and the Charts sheet ranges it plots, with their current values
+export interface ChartSpec {
+  kind: ChartKind;
+  title: string;
+  categories: { range: string; values: (string | number)[]; dates?: boolean };
+  series: { nameCell: string; name: string; range: string; values: number[] }[];
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Collect what the Charts sheet plots: capital deployed over time from the
+ * realized BUYs, P&L per symbol from the matched lots and position
+ * concentration from the residual market values
+ */
+export function collectChartData(
+  realizedRows: any[],
+  mapping: ResolvedMapping,
+  capital: SymbolCapital[],
+  lots: LotLine[] | undefined
+): VintageChartData {
+  const { tradeDate, side, amount } = mapping.realized;
+  const buy = mapping.buyValue.trim().toLowerCase();
+  const buys = new Map<number, number>();
+  for (const row of realizedRows) {
+    const date = toExcelSerial(row[tradeDate!]);
+    const value = toNumber(row[amount!]);
+    const direction = String(row[side!] ?? "").trim().toLowerCase();
+    if (direction !== buy || date === undefined || value === undefined) continue;
+    const day = Math.floor(date);
+    buys.set(day, (buys.get(day) ?? 0) + value);
+  }
+
+  // Cumulative totals match the sheet's ABS(SUMIFS(...)) up to each date
+  let running = 0;
+  const deployed = Array.from(buys.keys())
+    .sort((a, b) => a - b)
+    .map((date) => {
+      running += buys.get(date)!;
+      return { date, cumulative: Math.abs(running) };
+    });
+
+  const overview = collectVintageOverview("", realizedRows, mapping, capital, lots);
+  return {
+    deployed,
+    pnl:
+      lots &&
+      overview.symbols.map((line) => ({
+        symbol: line.symbol,
+        realized: line.realizedPnl ?? 0,
+        unrealized: line.unrealizedPnl ?? 0,
+      })),
+    positions: capital
+      .filter((line) => line.residualValue > 0)
+      .map((line) => ({ symbol: line.symbol, marketValue: line.residualValue })),
+  };
+}
+
+function absoluteRange(column: string, first: number, last: number): string {
+  return `${sheetRef(CHARTS_SHEET)}!$${column}$${first}:$${column}$${last}`;
+}
+
+function absoluteCell(column: string, row: number): string {
+  return `${sheetRef(CHARTS_SHEET)}!$${column}$${row}`;
+}
+
+function header(sheet: XLSX.WorkSheet, title: string, columns: string[], firstColumn: number) {
+  sheet[XLSX.utils.encode_cell({ r: 0, c: firstColumn })] = { v: title, t: "s" };
+  columns.forEach((name, index) => {
+    sheet[XLSX.utils.encode_cell({ r: TABLE_HEADER_ROW - 1, c: firstColumn + index })] = {
+      v: name,
+      t: "s",
+    };
+  });
+}
+
+/**
+ * Build the Charts sheet: the data tables each chart is bound to, every
+ * figure a formula over the Realized, Lots and Returns sheets, and the
+ * specs of the charts to embed. A chart with nothing to plot is left out
+ * and its table says why.
+ */
+export function buildChartsSheet(
+  data: VintageChartData,
+  realizedHeaders: string[],
+  mapping: ResolvedMapping
+): { sheet: XLSX.WorkSheet; charts: ChartSpec[] } {
+  const sheet: XLSX.WorkSheet = {};
+  const charts: ChartSpec[] = [];
+  let lastRow = FIRST_DATA_ROW;
+
+  // Capital deployed: cumulative BUY amounts up to the end of each BUY date
+  header(sheet, "Capital Deployed", ["Date", "Cumulative Capital"], 0);
+  const { realized } = mapping;
+  const dateRange = tableColumn("Realized", realizedHeaders, realized.tradeDate!);
+  const sideRange = tableColumn("Realized", realizedHeaders, realized.side!);
+  const amountRange = tableColumn("Realized", realizedHeaders, realized.amount!);
+  const buy = excelString(mapping.buyValue);
+  if (data.deployed.length === 0) {
+    sheet[`A${FIRST_DATA_ROW}`] = { v: "No dated BUYs; capital chart not drawn", t: "s" };
+  } else {
+    data.deployed.forEach((point, index) => {
+      const r = FIRST_DATA_ROW + index;
+      sheet[`A${r}`] = { v: point.date, t: "n", z: DATE_FORMAT };
+      sheet[`B${r}`] = {
+        f: `ABS(SUMIFS(${amountRange},${sideRange},${buy},${dateRange},"<"&(A${r}+1)))`,
+        v: point.cumulative,
+        t: "n",
+        z: MONEY_FORMAT,
+      };
+    });
+    const last = FIRST_DATA_ROW + data.deployed.length - 1;
+    lastRow = Math.max(lastRow, last);
+    charts.push({
+      kind: "line",
+      title: "Capital Deployed Over Time",
+      categories: {
+        range: absoluteRange("A", FIRST_DATA_ROW, last),
+        values: data.deployed.map((point) => point.date),
+        dates: true,
+      },
+      series: [
+        {
+          nameCell: absoluteCell("B", TABLE_HEADER_ROW),
+          name: "Cumulative Capital",
+          range: absoluteRange("B", FIRST_DATA_ROW, last),
+          values: data.deployed.map((point) => point.cumulative),
+        },
+      ],
+    });
+  }
+
+  // P&L by symbol: closed lot gains and market value less open lot cost
+  header(sheet, "P&L by Symbol", ["Symbol", "Realized P&L", "Unrealized P&L"], 3);
+  const lots = sheetRef("Lots");
+  const returns = sheetRef("Returns");
+  const marketValue = (cell: string) =>
+    `SUMIFS(${returns}!C:C,${returns}!A:A,${cell},${returns}!D:D,"Market value")`;
+  if (!data.pnl) {
+    sheet[`D${FIRST_DATA_ROW}`] = { v: "Lots not matched; P&L chart not drawn", t: "s" };
+  } else if (data.pnl.length === 0) {
+    sheet[`D${FIRST_DATA_ROW}`] = { v: "No symbols; P&L chart not drawn", t: "s" };
+  } else {
+    data.pnl.forEach((line, index) => {
+      const r = FIRST_DATA_ROW + index;
+      sheet[`D${r}`] = { v: line.symbol, t: "s" };
+      sheet[`E${r}`] = {
+        f: `SUMIFS(${lots}!H:H,${lots}!A:A,D${r},${lots}!J:J,"closed")`,
+        v: line.realized,
+        t: "n",
+        z: MONEY_FORMAT,
+      };
+      sheet[`F${r}`] = {
+        f: `${marketValue(`D${r}`)}-SUMIFS(${lots}!F:F,${lots}!A:A,D${r},${lots}!J:J,"open")`,
+        v: line.unrealized,
+        t: "n",
+        z: MONEY_FORMAT,
+      };
+    });
+    const last = FIRST_DATA_ROW + data.pnl.length - 1;
+    lastRow = Math.max(lastRow, last);
+    charts.push({
+      kind: "bar",
+      title: "Realized vs Unrealized P&L by Symbol",
+      categories: {
+        range: absoluteRange("D", FIRST_DATA_ROW, last),
+        values: data.pnl.map((line) => line.symbol),
+      },
+      series: [
+        {
+          nameCell: absoluteCell("E", TABLE_HEADER_ROW),
+          name: "Realized P&L",
+          range: absoluteRange("E", FIRST_DATA_ROW, last),
+          values: data.pnl.map((line) => line.realized),
+        },
+        {
+          nameCell: absoluteCell("F", TABLE_HEADER_ROW),
+          name: "Unrealized P&L",
+          range: absoluteRange("F", FIRST_DATA_ROW, last),
+          values: data.pnl.map((line) => line.unrealized),
+        },
+      ],
+    });
+  }
+
+  // Concentration: each open position's share of the total market value
+  header(sheet, "Position Concentration", ["Symbol", "Market Value", "Weight"], 7);
+  if (data.positions.length === 0) {
+    sheet[`H${FIRST_DATA_ROW}`] = { v: "No open positions; concentration chart not drawn", t: "s" };
+  } else {
+    const last = FIRST_DATA_ROW + data.positions.length - 1;
+    const total = data.positions.reduce((sum, line) => sum + line.marketValue, 0);
+    data.positions.forEach((line, index) => {
+      const r = FIRST_DATA_ROW + index;
+      sheet[`H${r}`] = { v: line.symbol, t: "s" };
+      sheet[`I${r}`] = { f: marketValue(`H${r}`), v: line.marketValue, t: "n", z: MONEY_FORMAT };
+      sheet[`J${r}`] = {
+        f: `I${r}/SUM($I$${FIRST_DATA_ROW}:$I$${last})`,
+        v: line.marketValue / total,
+        t: "n",
+        z: "0.0%",
+      };
+    });
+    lastRow = Math.max(lastRow, last);
+    charts.push({
+      kind: "pie",
+      title: "Position Concentration",
+      categories: {
+        range: absoluteRange("H", FIRST_DATA_ROW, last),
+        values: data.positions.map((line) => line.symbol),
+      },
+      series: [
+        {
+          nameCell: absoluteCell("I", TABLE_HEADER_ROW),
+          name: "Market Value",
+          range: absoluteRange("I", FIRST_DATA_ROW, last),
+          values: data.positions.map((line) => line.marketValue),
+        },
+      ],
+    });
+  }
+
+  sheet["!ref"] = `A1:J${lastRow}`;
+  sheet["!cols"] = [
+    { wch: 12 },
+    { wch: 18 },
+    { wch: 3 },
+    { wch: 12 },
+    { wch: 14 },
+    { wch: 15 },
+    { wch: 3 },
+    { wch: 12 },
+    { wch: 14 },
+    { wch: 8 },
+  ];
+  return { sheet, charts };
+}
+
+function stringRef(range: string, values: (string | number)[]): string {
+  const points = values.map(
+    (value, idx) => `<c:pt idx="${idx}"><c:v>${escapeXml(String(value))}</c:v></c:pt>`
+  );
+  return (
+    `<c:strRef><c:f>${escapeXml(range)}</c:f><c:strCache><c:ptCount val="${values.length}"/>` +
+    `${points.join("")}</c:strCache></c:strRef>`
+  );
+}
+
+function numberRef(range: string, values: (string | number)[], format: string): string {
+  const points = values.map((value, idx) => `<c:pt idx="${idx}"><c:v>${value}</c:v></c:pt>`);
+  return (
+    `<c:numRef><c:f>${escapeXml(range)}</c:f><c:numCache><c:formatCode>${format}</c:formatCode>` +
+    `<c:ptCount val="${values.length}"/>${points.join("")}</c:numCache></c:numRef>`
+  );
+}
+
+function seriesXml(chart: ChartSpec): string {
+  const { categories } = chart;
+  const cat = categories.dates
+    ? `<c:cat>${numberRef(categories.range, categories.values, DATE_FORMAT)}</c:cat>`
+    : `<c:cat>${stringRef(categories.range, categories.values)}</c:cat>`;
+
+  return chart.series
+    .map((series, index) => {
+      const head =
+        `<c:idx val="${index}"/><c:order val="${index}"/>` +
+        `<c:tx>${stringRef(series.nameCell, [series.name])}</c:tx>`;
+      const val = `<c:val>${numberRef(series.range, series.values, MONEY_FORMAT)}</c:val>`;
+      switch (chart.kind) {
+        case "line":
+          return (
+            `<c:ser>${head}<c:marker><c:symbol val="none"/></c:marker>` +
+            `${cat}${val}<c:smooth val="0"/></c:ser>`
+          );
+        case "bar":
+          return `<c:ser>${head}<c:invertIfNegative val="0"/>${cat}${val}</c:ser>`;
+        case "pie":
+          return (
+            `<c:ser>${head}<c:dLbls><c:showLegendKey val="0"/><c:showVal val="0"/>` +
+            `<c:showCatName val="1"/><c:showSerName val="0"/><c:showPercent val="1"/>` +
+            `<c:showBubbleSize val="0"/><c:showLeaderLines val="1"/></c:dLbls>${cat}${val}</c:ser>`
+          );
+      }
+    })
+    .join("");
+}
+
+const VALUE_AXIS =
+  `<c:valAx><c:axId val="2"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>` +
+  `<c:axPos val="l"/><c:majorGridlines/><c:numFmt formatCode="#,##0" sourceLinked="0"/>` +
+  `<c:tickLblPos val="nextTo"/><c:crossAx val="1"/><c:crosses val="autoZero"/>` +
+  `<c:crossBetween val="between"/></c:valAx>`;
+
+function plotAreaXml(chart: ChartSpec): string {
+  const series = seriesXml(chart);
+  switch (chart.kind) {
+    case "line":
+      return (
+        `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}` +
+        `<c:marker val="1"/><c:axId val="1"/><c:axId val="2"/></c:lineChart>` +
+        `<c:dateAx><c:axId val="1"/><c:scaling><c:orientation val="minMax"/></c:scaling>` +
+        `<c:delete val="0"/><c:axPos val="b"/><c:numFmt formatCode="${DATE_FORMAT}" sourceLinked="0"/>` +
+        `<c:tickLblPos val="low"/><c:crossAx val="2"/><c:crosses val="autoZero"/><c:auto val="1"/>` +
+        `<c:lblOffset val="100"/><c:baseTimeUnit val="days"/></c:dateAx>${VALUE_AXIS}`
+      );
+    case "bar":
+      return (
+        `<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>` +
+        `${series}<c:gapWidth val="150"/><c:axId val="1"/><c:axId val="2"/></c:barChart>` +
+        `<c:catAx><c:axId val="1"/><c:scaling><c:orientation val="minMax"/></c:scaling>` +
+        `<c:delete val="0"/><c:axPos val="b"/><c:tickLblPos val="low"/><c:crossAx val="2"/>` +
+        `<c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/>` +
+        `<c:noMultiLvlLbl val="0"/></c:catAx>${VALUE_AXIS}`
+      );
+    case "pie":
+      return `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+  }
+}
+
+function chartXml(chart: ChartSpec): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ` +
+    `xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ` +
+    `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+    `<c:roundedCorners val="0"/><c:chart>` +
+    `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${escapeXml(chart.title)}</a:t></a:r></a:p>` +
+    `</c:rich></c:tx><c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>` +
+    `<c:plotArea><c:layout/>${plotAreaXml(chart)}</c:plotArea>` +
+    `<c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend>` +
+    `<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>`
+  );
+}
+
+function anchorXml(index: number, relationshipId: string): string {
+  const top = index * CHART_HEIGHT_ROWS;
+  const marker = (col: number, row: number) =>
+    `<xdr:col>${col}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${row}</xdr:row><xdr:rowOff>0</xdr:rowOff>`;
+  return (
+    `<xdr:twoCellAnchor editAs="oneCell">` +
+    `<xdr:from>${marker(CHART_COLUMN, top)}</xdr:from>` +
+    `<xdr:to>${marker(CHART_COLUMN + CHART_WIDTH_COLUMNS, top + CHART_HEIGHT_ROWS - 1)}</xdr:to>` +
+    `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr>` +
+    `<xdr:cNvPr id="${index + 2}" name="Chart ${index + 1}"/>` +
+    `<xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>` +
+    `<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>` +
+    `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">` +
+    `<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ` +
+    `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ` +
+    `r:id="${relationshipId}"/>` +
+    `</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor>`
+  );
+}
+
+/**
+ * Embed native Excel charts in a written workbook package: a drawing on the
+ * Charts sheet anchoring one chart part per spec. Each series references
+ * its Charts sheet range, with the current values cached for viewers that
+ * do not recalculate.
+ */
+export async function embedCharts(zip: JSZip, charts: ChartSpec[]): Promise<void> {
+  if (charts.length === 0) return;
+
+  const sheetPath = await worksheetPath(zip, CHARTS_SHEET);
+  const drawingPath = nextPartPath(zip, "xl/drawings", "drawing");
+
+  const anchors: string[] = [];
+  for (let index = 0; index < charts.length; index++) {
+    const chart = charts[index];
+    const chartPath = nextPartPath(zip, "xl/charts", "chart");
+    zip.file(chartPath, chartXml(chart));
+    await addContentType(zip, chartPath, CONTENT_TYPES.chart);
+    const id = await addRelationship(
+      zip,
+      drawingPath,
+      RELATIONSHIP_TYPES.chart,
+      `../charts/${chartPath.split("/").pop()}`
+    );
+    anchors.push(anchorXml(index, id));
+  }
+
+  zip.file(
+    drawingPath,
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" ` +
+      `xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">${anchors.join("")}</xdr:wsDr>`
+  );
+  await addContentType(zip, drawingPath, CONTENT_TYPES.drawing);
+  const drawingId = await addRelationship(
+    zip,
+    sheetPath,
+    RELATIONSHIP_TYPES.drawing,
+    `../drawings/${drawingPath.split("/").pop()}`
+  );
+  await insertWorksheetElement(zip, sheetPath, `<drawing r:id="${drawingId}"/>`);
+}
@@ -0,0 +1,211 @@
+import type {
+  DateOrder,
+  MappingProfile,
+  PriceColumns,
+  RealizedColumns,
+  SourceFileKind,
+  UnrealizedColumns,
+} from "@shared/schema";
+
+export const DEFAULT_PROFILE_NAME = "default";
+
+// Built-in profile matching the original broker export layout
+export const DEFAULT_MAPPING_PROFILE: MappingProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  realized: {
+    symbol: "Symbol",
+    tradeDate: "TradeDate",
+    side: "Buy/Sell",
+    amount: "Amount",
+    vintage: "Vintage",
+    quantity: "Quantity",
+    price: "Price",
+    tradeId: "Trade ID",
+    lotId: "Lot ID",
+  },
+  unrealized: {
+    symbol: "Symbol",
+    vintage: "Vintage",
+    date: "Date",
+    quantity: "Net Quantity",
+    price: "Mark Price",
+    marketValue: "Position Value",
+  },
+  buyValue: "BUY",
+  sellValue: "SELL",
+  dividendValue: "DIVIDEND",
+  prices: {
+    symbol: "Symbol",
+    date: "Date",
+    price: "Price",
+  },
+  dateOrder: "us",
+};
+
+// Fields that must be present for the generated formulas to work
+const REQUIRED_REALIZED_FIELDS: (keyof RealizedColumns)[] = [
+  "vintage",
+  "symbol",
+  "tradeDate",
+  "side",
+  "amount",
+];
+const REQUIRED_UNREALIZED_FIELDS: (keyof UnrealizedColumns)[] = ["vintage"];
+
+/**
+ * Header names the profile requires in a source file that are absent from
+ * the given headers
+ */
+export function missingRequiredColumns(
+  kind: SourceFileKind,
+  profile: MappingProfile,
+  headers: string[]
+): string[] {
+  const present = new Set(headers.map(normalizeHeader));
+  const required: string[] =
+    kind === "realized"
+      ? REQUIRED_REALIZED_FIELDS.map((field) => profile.realized[field])
+      : REQUIRED_UNREALIZED_FIELDS.map((field) => profile.unrealized[field]);
+  return required.filter((header) => !present.has(normalizeHeader(header)));
+}
+
+// A profile resolved against the headers actually present in the source files
+export interface ResolvedMapping {
+  realized: Partial<RealizedColumns>;
+  unrealized: Partial<UnrealizedColumns>;
+  buyValue: string;
+  sellValue: string;
+  dividendValue: string;
+  dateOrder: DateOrder;
+}
+
+/**
+ * Collect row keys in order of first appearance, which is the column order
+ * json_to_sheet uses when writing the rows back out
+ */
+export function getHeaders(rows: any[]): string[] {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+  }
+  return headers;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+/**
+ * Match each logical field to a source header, ignoring case and
+ * surrounding whitespace. Missing required fields raise an error naming
+ * the header the profile expected.
+ */
+function resolveColumns<T extends Record<string, string>>(
+  headers: string[],
+  columns: T,
+  required: (keyof T)[],
+  fileLabel: string
+): Partial<T> {
+  const byNormalized = new Map<string, string>();
+  for (const header of headers) {
+    byNormalized.set(normalizeHeader(header), header);
+  }
+
+  const resolved: Partial<T> = {};
+  for (const field of Object.keys(columns) as (keyof T)[]) {
+    // Profiles saved before a field was added have no header for it
+    if (!columns[field]) continue;
+    const header = byNormalized.get(normalizeHeader(columns[field]));
+    if (header !== undefined) {
+      resolved[field] = header as T[keyof T];
+    } else if (required.includes(field)) {
+      throw new Error(`${fileLabel} file does not contain a '${columns[field]}' column`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Match the price history fields to the file's headers; all are required
+ */
+export function resolvePriceColumns(profile: MappingProfile, headers: string[]): PriceColumns {
+  // Profiles saved before price history existed have no price columns
+  const columns = profile.prices ?? DEFAULT_MAPPING_PROFILE.prices;
+  return resolveColumns(headers, columns, ["symbol", "date", "price"], "Price history") as PriceColumns;
+}
+
+export function resolveMapping(
+  profile: MappingProfile,
+  realizedHeaders: string[],
+  unrealizedHeaders: string[]
+): ResolvedMapping {
+  return {
+    realized: resolveColumns(
+      realizedHeaders,
+      profile.realized,
+      REQUIRED_REALIZED_FIELDS,
+      "Realized"
+    ),
+    unrealized: resolveColumns(
+      unrealizedHeaders,
+      profile.unrealized,
+      REQUIRED_UNREALIZED_FIELDS,
+      "Unrealized"
+    ),
+    buyValue: profile.buyValue,
+    sellValue: profile.sellValue,
+    // Profiles saved before dividends existed have no dividend value
+    dividendValue: profile.dividendValue ?? DEFAULT_MAPPING_PROFILE.dividendValue,
+    dateOrder: profile.dateOrder ?? DEFAULT_MAPPING_PROFILE.dateOrder,
+  };
+}
+
+// Column name inside a structured reference, with the characters Excel
+// treats as special escaped by a single quote
+function escapeColumnName(header: string): string {
+  return header.replace(/['#[\]]/g, "'$&");
+}
+
+/**
+ * Structured reference to a table column's data (e.g. "Realized[Symbol]")
+ * for a header of a table written with the given headers
+ */
+export function tableColumn(tableName: string, headers: string[], header: string): string {
+  if (!headers.includes(header)) {
+    throw new Error(`Column '${header}' not found in ${tableName} table`);
+  }
+  // Names with anything but letters, digits and underscores need inner brackets
+  const name = escapeColumnName(header);
+  return /^[A-Za-z0-9_]+$/.test(header) ? `${tableName}[${name}]` : `${tableName}[[${name}]]`;
+}
+
+/**
+ * Structured reference to a column's cell in the formula's own table row
+ * (shown in Excel as [@Header])
+ */
+export function tableRowCell(tableName: string, header: string): string {
+  return `${tableName}[[#This Row],[${escapeColumnName(header)}]]`;
+}
+
+/**
+ * Sheet name as it must appear in a formula, quoted when it contains
+ * anything other than letters, digits and underscores
+ */
+export function sheetRef(sheetName: string): string {
+  return /^[A-Za-z0-9_]+$/.test(sheetName)
+    ? sheetName
+    : `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Quote a value as an Excel string literal
+ */
+export function excelString(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
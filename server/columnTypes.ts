@@ -0,0 +1,44 @@
+import type { ColumnType } from "@shared/schema";
+
+// Share of non-empty values that must agree before a type is inferred
+const TYPE_AGREEMENT = 0.9;
+
+const CURRENCY_PATTERN = /^\(?-?\s*[$€£¥]\s*-?[\d,]+(\.\d+)?\)?$/;
+const NUMBER_PATTERN = /^\(?-?[\d,]*\.?\d+%?\)?$/;
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?Z?)?$/, // ISO
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}( \d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?)?$/i, // US/EU
+  /^\d{1,2}[- ][A-Za-z]{3}[- ]\d{2,4}$/, // 05-Jan-2024
+];
+
+function classifyValue(raw: unknown, formatted: string): ColumnType {
+  const text = formatted.trim();
+  if (DATE_PATTERNS.some((pattern) => pattern.test(text))) return "date";
+  if (CURRENCY_PATTERN.test(text)) return "currency";
+  if (typeof raw === "number" || NUMBER_PATTERN.test(text)) return "number";
+  return "text";
+}
+
+/**
+ * Infer a column's type from its raw values and their displayed text. A
+ * type wins when at least 90% of the non-empty values agree; currency
+ * values also count towards number, so mixed columns still read as
+ * numeric.
+ */
+export function inferColumnType(rawValues: unknown[], formattedValues: string[]): ColumnType {
+  const counts: Record<ColumnType, number> = { date: 0, number: 0, currency: 0, text: 0 };
+  let total = 0;
+
+  for (let i = 0; i < formattedValues.length; i++) {
+    const formatted = formattedValues[i];
+    if (formatted === undefined || formatted.trim() === "") continue;
+    counts[classifyValue(rawValues[i], formatted)]++;
+    total++;
+  }
+
+  if (total === 0) return "text";
+  if (counts.date >= total * TYPE_AGREEMENT) return "date";
+  if (counts.currency >= total * TYPE_AGREEMENT) return "currency";
+  if (counts.number + counts.currency >= total * TYPE_AGREEMENT) return "number";
+  return "text";
+}
@@ -0,0 +1,30 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+import type { StorageDatabase } from "./dbStorage";
+
+neonConfig.webSocketConstructor = ws;
+
+// Neon databases are reached through its websocket proxy; a plain Postgres
+// server does not speak that protocol
+function isNeonUrl(connectionString: string): boolean {
+  try {
+    return new URL(connectionString).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Connect drizzle to a Postgres database: the Neon serverless driver for
+ * Neon endpoints, node-postgres for any other server
+ */
+export function createDb(connectionString: string): StorageDatabase {
+  if (isNeonUrl(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzleNodePostgres({ client: new pg.Pool({ connectionString }), schema });
+}
@@ -0,0 +1,154 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import type { MappingProfile, VintageResult } from "@shared/schema";
+import { DEFAULT_MAPPING_PROFILE } from "./columnMapping";
+import { DbStorage, type StorageDatabase } from "./dbStorage";
+import type { RunOptions } from "./storage";
+
+// drizzle-kit's ESM build cannot load under vitest; its CommonJS build can
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+const RUN_OPTIONS: RunOptions = {
+  generatorVersion: "1.0.0",
+  mappingProfile: "default",
+  lotMethod: "hifo",
+  longTermDays: 365,
+  washSaleScope: "vintage",
+  twrMethod: "monthly",
+  duplicateKey: ["symbol", "tradeDate"],
+  duplicateHandling: "flag",
+};
+
+const VINTAGE: VintageResult = {
+  vintageName: "CQ1",
+  filename: "CQ1_Portfolio.xlsx",
+  realizedRowCount: 4,
+  unrealizedRowCount: 2,
+  fileSize: 3,
+  sheetCount: 12,
+};
+
+describe("DbStorage", () => {
+  let client: PGlite;
+  let storage: DbStorage;
+
+  // One in-process Postgres with the tables of the drizzle schema, emptied
+  // before every test
+  beforeAll(async () => {
+    client = new PGlite();
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+    const db = drizzle({ client, schema }) as unknown as StorageDatabase;
+    storage = new DbStorage(db, { runTtlMs: 60_000, sweepIntervalMs: 60_000 });
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  beforeEach(async () => {
+    await client.exec("TRUNCATE runs, mapping_profiles CASCADE");
+  });
+
+  it("round-trips a run with its source, vintage and report files", async () => {
+    const run = await storage.createRun(RUN_OPTIONS);
+    const file = { filename: "realized.csv", mimetype: "text/csv", size: 5 };
+    await storage.storeSourceFile(run.id, "realized", file, Buffer.from("trade"));
+    await storage.storeVintageFile(run.id, VINTAGE, Buffer.from("xls"));
+    const report = { name: "all-vintages", filename: "All_Vintages.xlsx", fileSize: 3 };
+    await storage.storeReportFile(run.id, report, Buffer.from("all"));
+
+    expect(await storage.getRun(run.id)).toMatchObject({ id: run.id, lotMethod: "hifo" });
+    expect((await storage.getSourceFile(run.id, "realized"))?.toString()).toBe("trade");
+    expect((await storage.getVintageFile(run.id, "CQ1"))?.toString()).toBe("xls");
+    expect((await storage.getReportFile(run.id, "all-vintages"))?.toString()).toBe("all");
+
+    const record = await storage.getRunRecord(run.id);
+    expect(record).toMatchObject({
+      runId: run.id,
+      twrMethod: "monthly",
+      sourceFiles: [{ kind: "realized", ...file }],
+      vintages: [VINTAGE],
+      reports: [report],
+    });
+    expect(await storage.listRuns()).toEqual([record]);
+  });
+
+  it("keeps the options a run was processed with", async () => {
+    const run = await storage.createRun({
+      ...RUN_OPTIONS,
+      realizedHeaderRow: 5,
+      realizedSheets: ["Equities", "Options"],
+      unrealizedSheets: "all",
+    });
+    const options = {
+      realizedHeaderRow: 5,
+      unrealizedHeaderRow: undefined,
+      realizedSheets: ["Equities", "Options"],
+      unrealizedSheets: "all",
+      duplicateKey: ["symbol", "tradeDate"],
+      duplicateHandling: "flag",
+    };
+
+    expect(await storage.getRun(run.id)).toMatchObject(options);
+    expect(await storage.getRunRecord(run.id)).toMatchObject(options);
+  });
+
+  it("replaces a stored vintage of the same name", async () => {
+    const run = await storage.createRun(RUN_OPTIONS);
+    await storage.storeVintageFile(run.id, VINTAGE, Buffer.from("old"));
+    await storage.storeVintageFile(run.id, { ...VINTAGE, fileSize: 4 }, Buffer.from("new!"));
+
+    expect((await storage.getVintageFile(run.id, "CQ1"))?.toString()).toBe("new!");
+    expect((await storage.getRunRecord(run.id))?.vintages).toEqual([{ ...VINTAGE, fileSize: 4 }]);
+  });
+
+  it("deletes a run together with its files", async () => {
+    const run = await storage.createRun(RUN_OPTIONS);
+    await storage.storeVintageFile(run.id, VINTAGE, Buffer.from("xls"));
+
+    expect(await storage.deleteRun(run.id)).toBe(true);
+    expect(await storage.deleteRun(run.id)).toBe(false);
+    expect(await storage.getRun(run.id)).toBeUndefined();
+    expect(await storage.getVintageFile(run.id, "CQ1")).toBeUndefined();
+    expect(await storage.listRuns()).toEqual([]);
+  });
+
+  it("hides and purges expired runs", async () => {
+    const run = await storage.createRun(RUN_OPTIONS);
+    const later = new Date(run.expiresAt.getTime() + 1);
+
+    expect(await storage.purgeExpiredRuns(new Date())).toBe(0);
+    expect(await storage.purgeExpiredRuns(later)).toBe(1);
+    expect(await storage.getRun(run.id)).toBeUndefined();
+  });
+
+  it("refuses files for an unknown run", async () => {
+    await expect(storage.storeVintageFile("missing", VINTAGE, Buffer.from("xls"))).rejects.toThrow(
+      "Run 'missing' not found or expired"
+    );
+  });
+
+  it("saves, lists, updates and deletes mapping profiles", async () => {
+    const broker: MappingProfile = { ...DEFAULT_MAPPING_PROFILE, name: "broker", buyValue: "B" };
+    await storage.saveMappingProfile(broker);
+    await storage.saveMappingProfile({ ...DEFAULT_MAPPING_PROFILE, name: "another" });
+    await storage.saveMappingProfile({ ...broker, sellValue: "S" });
+
+    expect((await storage.listMappingProfiles()).map((profile) => profile.name)).toEqual([
+      "another",
+      "broker",
+    ]);
+    expect(await storage.getMappingProfile("broker")).toEqual({ ...broker, sellValue: "S" });
+    expect(await storage.deleteMappingProfile("broker")).toBe(true);
+    expect(await storage.deleteMappingProfile("broker")).toBe(false);
+    expect(await storage.getMappingProfile("broker")).toBeUndefined();
+  });
+});
@@ -0,0 +1,391 @@
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, inArray, lte } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import {
+  duplicateHandlingSchema,
+  lotMethodSchema,
+  twrMethodSchema,
+  washSaleScopeSchema,
+  mappingProfiles,
+  reportFiles,
+  runs,
+  sourceFiles,
+  vintageFiles,
+  type MappingProfile,
+  type ReportFile,
+  type Run,
+  type RunRecord,
+  type StoredFileKind,
+  type UploadedFile,
+  type VintageResult,
+} from "@shared/schema";
+import { DEFAULT_DUPLICATE_OPTIONS } from "./duplicates";
+import type { IStorage, RetentionOptions, RunInfo, RunOptions } from "./storage";
+
+// Any drizzle Postgres driver works here (neon, node-postgres, PGlite)
+export type StorageDatabase = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export class DbStorage implements IStorage {
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(
+    private db: StorageDatabase,
+    private options: Pick<RetentionOptions, "runTtlMs" | "sweepIntervalMs">
+  ) {}
+
+  /**
+   * Start the background sweeper that purges expired runs
+   */
+  startSweeper(): void {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => {
+      this.purgeExpiredRuns().catch((error) => {
+        console.error("Error purging expired runs:", error);
+      });
+    }, this.options.sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+
+  async createRun({
+    generatorVersion,
+    mappingProfile,
+    lotMethod,
+    longTermDays,
+    washSaleScope,
+    twrMethod,
+    realizedHeaderRow,
+    unrealizedHeaderRow,
+    realizedSheets,
+    unrealizedSheets,
+    duplicateKey,
+    duplicateHandling,
+  }: RunOptions): Promise<RunInfo> {
+    const createdAt = new Date();
+    const [run] = await this.db
+      .insert(runs)
+      .values({
+        id: randomUUID(),
+        createdAt,
+        expiresAt: new Date(createdAt.getTime() + this.options.runTtlMs),
+        generatorVersion,
+        mappingProfile,
+        lotMethod,
+        longTermDays,
+        washSaleScope,
+        twrMethod,
+        realizedHeaderRow,
+        unrealizedHeaderRow,
+        realizedSheets,
+        unrealizedSheets,
+        duplicateKey,
+        duplicateHandling,
+      })
+      .returning();
+    return this.toRunInfo(run);
+  }
+
+  async getRun(runId: string): Promise<RunInfo | undefined> {
+    const [run] = await this.db
+      .select()
+      .from(runs)
+      .where(and(eq(runs.id, runId), gt(runs.expiresAt, new Date())));
+    return run && this.toRunInfo(run);
+  }
+
+  async listRuns(): Promise<RunRecord[]> {
+    const liveRuns = await this.db
+      .select()
+      .from(runs)
+      .where(gt(runs.expiresAt, new Date()))
+      .orderBy(desc(runs.createdAt));
+    return this.toRunRecords(liveRuns);
+  }
+
+  async getRunRecord(runId: string): Promise<RunRecord | undefined> {
+    const [run] = await this.db
+      .select()
+      .from(runs)
+      .where(and(eq(runs.id, runId), gt(runs.expiresAt, new Date())));
+    if (!run) return undefined;
+
+    const [record] = await this.toRunRecords([run]);
+    return record;
+  }
+
+  async deleteRun(runId: string): Promise<boolean> {
+    // Source, vintage and report files cascade with the run
+    const deleted = await this.db.delete(runs).where(eq(runs.id, runId)).returning({ id: runs.id });
+    return deleted.length > 0;
+  }
+
+  async purgeExpiredRuns(now: Date = new Date()): Promise<number> {
+    const purged = await this.db
+      .delete(runs)
+      .where(lte(runs.expiresAt, now))
+      .returning({ id: runs.id });
+    return purged.length;
+  }
+
+  async storeSourceFile(
+    runId: string,
+    kind: StoredFileKind,
+    file: UploadedFile,
+    buffer: Buffer
+  ): Promise<void> {
+    await this.requireLiveRun(runId);
+
+    const values = {
+      runId,
+      kind,
+      filename: file.filename,
+      mimetype: file.mimetype,
+      size: file.size,
+      data: buffer,
+    };
+    await this.db
+      .insert(sourceFiles)
+      .values(values)
+      .onConflictDoUpdate({ target: [sourceFiles.runId, sourceFiles.kind], set: values });
+  }
+
+  async getSourceFile(runId: string, kind: StoredFileKind): Promise<Buffer | undefined> {
+    const [row] = await this.db
+      .select({ data: sourceFiles.data })
+      .from(sourceFiles)
+      .innerJoin(runs, eq(runs.id, sourceFiles.runId))
+      .where(
+        and(
+          eq(sourceFiles.runId, runId),
+          eq(sourceFiles.kind, kind),
+          gt(runs.expiresAt, new Date())
+        )
+      );
+    return row?.data;
+  }
+
+  async storeVintageFile(runId: string, vintage: VintageResult, buffer: Buffer): Promise<string> {
+    await this.requireLiveRun(runId);
+
+    const values = {
+      runId,
+      vintageName: vintage.vintageName,
+      filename: vintage.filename,
+      realizedRowCount: vintage.realizedRowCount,
+      unrealizedRowCount: vintage.unrealizedRowCount,
+      fileSize: vintage.fileSize,
+      sheetCount: vintage.sheetCount ?? null,
+      reconciliation: vintage.reconciliation ?? null,
+      returns: vintage.returns ?? null,
+      metrics: vintage.metrics ?? null,
+      twr: vintage.twr ?? null,
+      data: buffer,
+    };
+    await this.db
+      .insert(vintageFiles)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [vintageFiles.runId, vintageFiles.vintageName],
+        set: values,
+      });
+    return vintage.vintageName;
+  }
+
+  async getVintageFile(runId: string, vintageName: string): Promise<Buffer | undefined> {
+    const [row] = await this.db
+      .select({ data: vintageFiles.data })
+      .from(vintageFiles)
+      .innerJoin(runs, eq(runs.id, vintageFiles.runId))
+      .where(
+        and(
+          eq(vintageFiles.runId, runId),
+          eq(vintageFiles.vintageName, vintageName),
+          gt(runs.expiresAt, new Date())
+        )
+      );
+    return row?.data;
+  }
+
+  async storeReportFile(runId: string, report: ReportFile, buffer: Buffer): Promise<void> {
+    await this.requireLiveRun(runId);
+
+    const values = {
+      runId,
+      name: report.name,
+      filename: report.filename,
+      fileSize: report.fileSize,
+      data: buffer,
+    };
+    await this.db
+      .insert(reportFiles)
+      .values(values)
+      .onConflictDoUpdate({ target: [reportFiles.runId, reportFiles.name], set: values });
+  }
+
+  async getReportFile(runId: string, name: string): Promise<Buffer | undefined> {
+    const [row] = await this.db
+      .select({ data: reportFiles.data })
+      .from(reportFiles)
+      .innerJoin(runs, eq(runs.id, reportFiles.runId))
+      .where(
+        and(eq(reportFiles.runId, runId), eq(reportFiles.name, name), gt(runs.expiresAt, new Date()))
+      );
+    return row?.data;
+  }
+
+  async clearVintageFiles(): Promise<void> {
+    await this.db.delete(runs);
+  }
+
+  async listMappingProfiles(): Promise<MappingProfile[]> {
+    const rows = await this.db
+      .select({ profile: mappingProfiles.profile })
+      .from(mappingProfiles)
+      .orderBy(asc(mappingProfiles.name));
+    return rows.map((row) => row.profile);
+  }
+
+  async getMappingProfile(name: string): Promise<MappingProfile | undefined> {
+    const [row] = await this.db
+      .select({ profile: mappingProfiles.profile })
+      .from(mappingProfiles)
+      .where(eq(mappingProfiles.name, name));
+    return row?.profile;
+  }
+
+  async saveMappingProfile(profile: MappingProfile): Promise<MappingProfile> {
+    const values = { name: profile.name, profile, updatedAt: new Date() };
+    await this.db
+      .insert(mappingProfiles)
+      .values(values)
+      .onConflictDoUpdate({ target: mappingProfiles.name, set: values });
+    return profile;
+  }
+
+  async deleteMappingProfile(name: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(mappingProfiles)
+      .where(eq(mappingProfiles.name, name))
+      .returning({ name: mappingProfiles.name });
+    return deleted.length > 0;
+  }
+
+  private async requireLiveRun(runId: string): Promise<RunInfo> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new Error(`Run '${runId}' not found or expired`);
+    }
+    return run;
+  }
+
+  /**
+   * Attach source file, vintage and report metadata to runs, without loading the
+   * stored workbook contents
+   */
+  private async toRunRecords(runRows: Run[]): Promise<RunRecord[]> {
+    if (runRows.length === 0) return [];
+    const runIds = runRows.map((run) => run.id);
+
+    const sourceRows = await this.db
+      .select({
+        runId: sourceFiles.runId,
+        kind: sourceFiles.kind,
+        filename: sourceFiles.filename,
+        mimetype: sourceFiles.mimetype,
+        size: sourceFiles.size,
+      })
+      .from(sourceFiles)
+      .where(inArray(sourceFiles.runId, runIds))
+      .orderBy(asc(sourceFiles.kind));
+
+    const vintageRows = await this.db
+      .select({
+        runId: vintageFiles.runId,
+        vintageName: vintageFiles.vintageName,
+        filename: vintageFiles.filename,
+        realizedRowCount: vintageFiles.realizedRowCount,
+        unrealizedRowCount: vintageFiles.unrealizedRowCount,
+        fileSize: vintageFiles.fileSize,
+        sheetCount: vintageFiles.sheetCount,
+        reconciliation: vintageFiles.reconciliation,
+        returns: vintageFiles.returns,
+        metrics: vintageFiles.metrics,
+        twr: vintageFiles.twr,
+      })
+      .from(vintageFiles)
+      .where(inArray(vintageFiles.runId, runIds))
+      .orderBy(asc(vintageFiles.vintageName));
+
+    const reportRows = await this.db
+      .select({
+        runId: reportFiles.runId,
+        name: reportFiles.name,
+        filename: reportFiles.filename,
+        fileSize: reportFiles.fileSize,
+      })
+      .from(reportFiles)
+      .where(inArray(reportFiles.runId, runIds))
+      .orderBy(asc(reportFiles.name));
+
+    return runRows.map((run) => ({
+      runId: run.id,
+      createdAt: run.createdAt.toISOString(),
+      expiresAt: run.expiresAt.toISOString(),
+      generatorVersion: run.generatorVersion,
+      mappingProfile: run.mappingProfile,
+      lotMethod: lotMethodSchema.parse(run.lotMethod),
+      longTermDays: run.longTermDays,
+      washSaleScope: washSaleScopeSchema.parse(run.washSaleScope),
+      twrMethod: twrMethodSchema.parse(run.twrMethod),
+      realizedHeaderRow: run.realizedHeaderRow ?? undefined,
+      unrealizedHeaderRow: run.unrealizedHeaderRow ?? undefined,
+      realizedSheets: run.realizedSheets ?? undefined,
+      unrealizedSheets: run.unrealizedSheets ?? undefined,
+      duplicateKey: run.duplicateKey ?? DEFAULT_DUPLICATE_OPTIONS.key,
+      duplicateHandling: duplicateHandlingSchema.parse(run.duplicateHandling),
+      sourceFiles: sourceRows
+        .filter((row) => row.runId === run.id)
+        .map(({ runId, kind, ...file }) => ({ kind: kind as StoredFileKind, ...file })),
+      vintages: vintageRows
+        .filter((row) => row.runId === run.id)
+        .map(({ runId, sheetCount, reconciliation, returns, metrics, twr, ...vintage }) => ({
+          ...vintage,
+          sheetCount: sheetCount ?? undefined,
+          reconciliation: reconciliation ?? undefined,
+          returns: returns ?? undefined,
+          metrics: metrics ?? undefined,
+          twr: twr ?? undefined,
+        })),
+      reports: reportRows
+        .filter((row) => row.runId === run.id)
+        .map(({ runId, ...report }) => report),
+    }));
+  }
+
+  private toRunInfo(run: Run): RunInfo {
+    return {
+      id: run.id,
+      createdAt: run.createdAt,
+      expiresAt: run.expiresAt,
+      generatorVersion: run.generatorVersion,
+      mappingProfile: run.mappingProfile,
+      lotMethod: lotMethodSchema.parse(run.lotMethod),
+      longTermDays: run.longTermDays,
+      washSaleScope: washSaleScopeSchema.parse(run.washSaleScope),
+      twrMethod: twrMethodSchema.parse(run.twrMethod),
+      realizedHeaderRow: run.realizedHeaderRow ?? undefined,
+      unrealizedHeaderRow: run.unrealizedHeaderRow ?? undefined,
+      realizedSheets: run.realizedSheets ?? undefined,
+      unrealizedSheets: run.unrealizedSheets ?? undefined,
+      duplicateKey: run.duplicateKey ?? DEFAULT_DUPLICATE_OPTIONS.key,
+      duplicateHandling: duplicateHandlingSchema.parse(run.duplicateHandling),
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import * as XLSX from "xlsx";
+import type {
+  DuplicateHandling,
+  DuplicateKeyField,
+  DuplicateOptions,
+  SourceSheet,
+} from "@shared/schema";
+import type { ResolvedMapping } from "./columnMapping";
+import { locateRows, type RowLocation } from "./headerDetection";
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  key: ["symbol", "tradeDate", "side", "quantity", "price"],
+  handling: "keep",
+};
+
+// Column appended to the Realized sheet when duplicates are flagged
+export const DUPLICATE_COLUMN = "Duplicate Of";
+
+const ACTIONS: Record<DuplicateHandling, string> = {
+  keep: "Kept",
+  drop: "Dropped",
+  flag: "Flagged",
+};
+
+// A realized row whose key repeats an earlier row's
+export interface DuplicateMatch {
+  location: RowLocation;
+  original: RowLocation;
+  values: Record<string, unknown>;
+}
+
+export interface DuplicateResult {
+  options: DuplicateOptions;
+  // Source headers making up the key, in key order
+  keyHeaders: string[];
+  matches: DuplicateMatch[];
+  // Realized rows after applying the handling
+  rows: any[];
+}
+
+function keyPart(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+/**
+ * Find realized rows repeating the key of an earlier row and apply the
+ * chosen handling. The first occurrence of a key is always the original;
+ * rows whose key columns are all blank are never duplicates.
+ */
+export function detectDuplicates(
+  rows: any[],
+  sheets: SourceSheet[],
+  mapping: ResolvedMapping,
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateResult {
+  const keyHeaders = options.key.map((field: DuplicateKeyField) => {
+    const header = mapping.realized[field];
+    if (!header) {
+      throw new Error(
+        `Realized file has no column for duplicate key field '${field}'; ` +
+          "map it in the column mapping profile or leave it out of the key"
+      );
+    }
+    return header;
+  });
+
+  const locations = locateRows(rows, sheets);
+  const firstSeen = new Map<string, RowLocation>();
+  const matches: DuplicateMatch[] = [];
+  const duplicateOf = new Map<number, RowLocation>();
+
+  rows.forEach((row, index) => {
+    const parts = keyHeaders.map((header) => keyPart(row[header]));
+    if (parts.every((part) => part === "")) return;
+
+    const key = JSON.stringify(parts);
+    const original = firstSeen.get(key);
+    if (!original) {
+      firstSeen.set(key, locations[index]);
+      return;
+    }
+
+    matches.push({ location: locations[index], original, values: row });
+    duplicateOf.set(index, original);
+  });
+
+  let handled = rows;
+  if (options.handling === "drop") {
+    handled = rows.filter((_row, index) => !duplicateOf.has(index));
+  } else if (options.handling === "flag") {
+    handled = rows.map((row, index) => {
+      const original = duplicateOf.get(index);
+      return original
+        ? { ...row, [DUPLICATE_COLUMN]: `${original.sheetName} row ${original.row}` }
+        : row;
+    });
+  }
+
+  return { options, keyHeaders, matches, rows: handled };
+}
+
+/**
+ * Build the Duplicates sheet for a vintage workbook: the handling and key
+ * used, then one line per duplicate row in that vintage
+ */
+export function buildDuplicatesSheet(
+  result: DuplicateResult,
+  matches: DuplicateMatch[]
+): XLSX.WorkSheet {
+  const action = ACTIONS[result.options.handling];
+  const data: unknown[][] = [
+    ["Duplicate handling", action],
+    ["Key columns", result.keyHeaders.join(", ")],
+    [],
+    ["Action", "Source Sheet", "Source Row", "Duplicate Of Row", ...result.keyHeaders],
+  ];
+
+  if (matches.length === 0) {
+    data.push(["No duplicate rows found"]);
+  }
+  for (const match of matches) {
+    data.push([
+      action,
+      match.location.sheetName,
+      match.location.row,
+      match.original.sheetName === match.location.sheetName
+        ? match.original.row
+        : `${match.original.sheetName} row ${match.original.row}`,
+      ...result.keyHeaders.map((header) => match.values[header] ?? ""),
+    ]);
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(data);
+  sheet["!cols"] = [
+    { wch: 20 },
+    { wch: 20 },
+    { wch: 12 },
+    { wch: 18 },
+    ...result.keyHeaders.map(() => ({ wch: 15 })),
+  ];
+  return sheet;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDateColumn, parseDateText, toExcelSerial } from "./excelDates";
+
+// 1900 date system serials of 2024-01-05 and 2024-05-01
+const JAN_5 = 45296;
+const MAY_1 = 45413;
+
+describe("parseDateText", () => {
+  it("reads ISO dates with or without a time", () => {
+    expect(parseDateText("2024-01-05")).toBe(JAN_5);
+    expect(parseDateText("2024/1/5")).toBe(JAN_5);
+    expect(parseDateText("2024-01-05T12:00:00Z")).toBe(JAN_5 + 0.5);
+  });
+
+  it("reads numeric dates in the given day/month order", () => {
+    expect(parseDateText("01/05/2024", "us")).toBe(JAN_5);
+    expect(parseDateText("01/05/2024", "eu")).toBe(MAY_1);
+    expect(parseDateText("5.1.24", "eu")).toBe(JAN_5);
+    expect(parseDateText("1/5/2024 6:00 PM", "us")).toBe(JAN_5 + 0.75);
+  });
+
+  it("reads dates with month names in either order", () => {
+    expect(parseDateText("05-Jan-2024")).toBe(JAN_5);
+    expect(parseDateText("5 January 2024", "us")).toBe(JAN_5);
+    expect(parseDateText("Jan 5, 2024", "eu")).toBe(JAN_5);
+  });
+
+  it("reads two-digit years as Excel does", () => {
+    expect(parseDateText("1/5/24")).toBe(JAN_5);
+    expect(parseDateText("1/5/99")).toBe(36165);
+  });
+
+  it("rejects impossible dates and other text", () => {
+    expect(parseDateText("25/01/2024", "us")).toBeUndefined();
+    expect(parseDateText("01/25/2024", "eu")).toBeUndefined();
+    expect(parseDateText("2023-02-29")).toBeUndefined();
+    expect(parseDateText("31/04/2024", "eu")).toBeUndefined();
+    expect(parseDateText("2024-01-05 25:00")).toBeUndefined();
+    expect(parseDateText("AAPL")).toBeUndefined();
+  });
+});
+
+describe("toExcelSerial", () => {
+  it("converts serials, Date objects and text", () => {
+    expect(toExcelSerial(JAN_5)).toBe(JAN_5);
+    expect(toExcelSerial(new Date(Date.UTC(2024, 0, 5)))).toBe(JAN_5);
+    expect(toExcelSerial("05/01/2024", "eu")).toBe(JAN_5);
+    expect(toExcelSerial(NaN)).toBeUndefined();
+    expect(toExcelSerial(null)).toBeUndefined();
+  });
+});
+
+describe("normalizeDateColumn", () => {
+  const rows = () => [{ Date: JAN_5 - 1462 }, { Date: "05/01/2024" }, { Date: "n/a" }, {}];
+
+  it("keeps 1900 date system serials and parses text", () => {
+    const values = rows();
+    normalizeDateColumn(values, "Date", "eu", false);
+    expect(values).toEqual([{ Date: JAN_5 - 1462 }, { Date: JAN_5 }, { Date: "n/a" }, {}]);
+  });
+
+  it("shifts 1904 date system serials but not parsed text", () => {
+    const values = rows();
+    normalizeDateColumn(values, "Date", "us", true);
+    expect(values).toEqual([{ Date: JAN_5 }, { Date: MAY_1 }, { Date: "n/a" }, {}]);
+  });
+
+  it("leaves rows alone without a column", () => {
+    const values = rows();
+    normalizeDateColumn(values, undefined, "us", true);
+    expect(values).toEqual(rows());
+  });
+});
@@ -0,0 +1,167 @@
+import type * as XLSX from "xlsx";
+import type { DateOrder } from "@shared/schema";
+
+// Days between the Excel 1900 date system epoch and the Unix epoch
+const UNIX_EPOCH_SERIAL = 25569;
+const MS_PER_DAY = 86400000;
+
+// Days between the 1900 and 1904 date system epochs; a 1904 serial plus
+// this is the 1900 serial of the same day
+const DATE_1904_OFFSET = 1462;
+
+// Two-digit years below this are 20xx, the rest 19xx, as in Excel
+const TWO_DIGIT_YEAR_CUTOFF = 30;
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// Optional time of day after a date: 14:30, 14:30:05.250, 2:30 PM
+const TIME = String.raw`(?:[T ]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([AaPp][Mm])?)?`;
+// Trailing UTC offset of ISO timestamps, ignored: the date as written counts
+const ZONE = String.raw`(?:Z|[+-]\d{2}:?\d{2})?`;
+
+const ISO_DATE = new RegExp(String.raw`^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})${TIME}${ZONE}$`);
+const NUMERIC_DATE = new RegExp(String.raw`^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})${TIME}$`);
+// 05-Jan-2024, 5 January 2024
+const DAY_MONTH_NAME = new RegExp(
+  String.raw`^(\d{1,2})[- ]([A-Za-z]{3,9})\.?[- ,]+(\d{4}|\d{2})${TIME}$`
+);
+// Jan 5, 2024, January 5 2024
+const MONTH_NAME_DAY = new RegExp(String.raw`^([A-Za-z]{3,9})\.? (\d{1,2}),? (\d{4}|\d{2})${TIME}$`);
+
+function fullYear(text: string): number {
+  const year = Number(text);
+  if (text.length > 2) return year;
+  return year < TWO_DIGIT_YEAR_CUTOFF ? 2000 + year : 1900 + year;
+}
+
+function monthNumber(name: string): number | undefined {
+  const lower = name.toLowerCase();
+  const index = MONTH_NAMES.findIndex((month) => month.startsWith(lower) && lower.length >= 3);
+  return index < 0 ? undefined : index + 1;
+}
+
+/**
+ * Serial date of a calendar date and optional time, undefined when any
+ * part is out of range (month 13, 31 April, 25:00)
+ */
+function serialOf(
+  year: number,
+  month: number | undefined,
+  day: number,
+  time: (string | undefined)[]
+): number | undefined {
+  const [hourText, minuteText, secondText, meridiem] = time;
+  let hour = Number(hourText ?? 0);
+  const minute = Number(minuteText ?? 0);
+  const second = Number(secondText ?? 0);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+  }
+  if (month === undefined || month < 1 || month > 12 || day < 1) return undefined;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return undefined;
+  if (hour > 23 || minute > 59 || second > 59) return undefined;
+
+  return Date.UTC(year, month - 1, day, hour, minute, second) / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+}
+
+/**
+ * Excel serial date of a text date: ISO (2024-01-05, with or without a
+ * time), numeric dates in the profile's day/month order (01/05/2024,
+ * 5.1.24) and dates with month names (05-Jan-2024, Jan 5, 2024).
+ * Undefined for anything else, including impossible dates.
+ */
+export function parseDateText(text: string, order: DateOrder = "us"): number | undefined {
+  const value = text.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = value.match(ISO_DATE))) {
+    const [, year, month, day, ...time] = match;
+    return serialOf(Number(year), Number(month), Number(day), time);
+  }
+  if ((match = value.match(NUMERIC_DATE))) {
+    const [, first, second, year, ...time] = match;
+    const [month, day] = order === "us" ? [first, second] : [second, first];
+    return serialOf(fullYear(year), Number(month), Number(day), time);
+  }
+  if ((match = value.match(DAY_MONTH_NAME))) {
+    const [, day, month, year, ...time] = match;
+    return serialOf(fullYear(year), monthNumber(month), Number(day), time);
+  }
+  if ((match = value.match(MONTH_NAME_DAY))) {
+    const [, month, day, year, ...time] = match;
+    return serialOf(fullYear(year), monthNumber(month), Number(day), time);
+  }
+  return undefined;
+}
+
+/**
+ * Excel serial date (1900 date system) for a cell value: serial numbers
+ * as-is, Date objects converted and text parsed with the given day/month
+ * order. Undefined for anything else.
+ */
+export function toExcelSerial(value: unknown, order: DateOrder = "us"): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.getTime() / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+  }
+  if (typeof value === "string") return parseDateText(value, order);
+  return undefined;
+}
+
+/**
+ * Whether a workbook stores dates in the 1904 date system (older Mac Excel)
+ */
+export function usesDate1904(workbook: XLSX.WorkBook): boolean {
+  return Boolean(workbook.Workbook?.WBProps?.date1904);
+}
+
+/**
+ * Replace the values of a date column with 1900 date system serials, in
+ * place: serials of a 1904 workbook are shifted, Date objects converted
+ * and text parsed with the profile's day/month order. Values that are not
+ * dates are left as they are for validation to report.
+ */
+export function normalizeDateColumn(
+  rows: any[],
+  column: string | undefined,
+  order: DateOrder,
+  date1904: boolean
+): void {
+  if (!column) return;
+  for (const row of rows) {
+    const value = row[column];
+    const serial = toExcelSerial(value, order);
+    if (serial === undefined) continue;
+    row[column] = typeof value === "number" && date1904 ? serial + DATE_1904_OFFSET : serial;
+  }
+}
+
+/**
+ * ISO date (yyyy-mm-dd) of an Excel serial date, ignoring the time of day
+ */
+export function formatExcelSerial(serial: number): string {
+  return new Date((Math.floor(serial) - UNIX_EPOCH_SERIAL) * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Serial date of the last day of the month containing an Excel serial date
+ */
+export function endOfMonthSerial(serial: number): number {
+  const date = new Date((Math.floor(serial) - UNIX_EPOCH_SERIAL) * MS_PER_DAY);
+  const monthEnd = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+  return monthEnd / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+}
@@ -0,0 +1,75 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAPPING_PROFILE } from "./columnMapping";
+import { ExcelProcessor } from "./excelProcessor";
+
+// 1900 date system serials of 2024-01-05 and 2024-01-08
+const JAN_5 = 45296;
+const JAN_8 = 45299;
+
+const UNREALIZED = Buffer.from(
+  "Symbol,Vintage,Date,Net Quantity,Mark Price,Position Value\nAAPL,CQ1,31/01/2024,10,110,1100\n"
+);
+
+function workbookBuffer(rows: unknown[][], date1904: boolean): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Trades");
+  workbook.Workbook = { WBProps: { date1904 } };
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+function dateCell(serial: number): XLSX.CellObject {
+  return { t: "n", v: serial, z: "m/d/yy" };
+}
+
+const HEADERS = ["Symbol", "TradeDate", "Settle Date", "Buy/Sell", "Amount", "Vintage", "Quantity", "Price"];
+
+// A BUY traded on 2024-01-05 and settled on 2024-01-08, as 1904 date system serials
+const TRADE_1904 = ["AAPL", dateCell(JAN_5 - 1462), dateCell(JAN_8 - 1462), "BUY", -1000, "CQ1", 10, 100];
+
+describe("ExcelProcessor.processFiles", () => {
+  it("normalizes every date column of a 1904 date system workbook", async () => {
+    const realized = workbookBuffer([HEADERS, TRADE_1904], true);
+    const { vintageData } = await ExcelProcessor.processFiles(realized, UNREALIZED, {
+      profile: { ...DEFAULT_MAPPING_PROFILE, dateOrder: "eu" },
+    });
+    const [vintage] = vintageData;
+
+    expect(vintage.realizedRows[0]).toMatchObject({ TradeDate: JAN_5, "Settle Date": JAN_8 });
+    expect(vintage.realizedDateColumns).toEqual(["TradeDate", "Settle Date"]);
+    expect(vintage.unrealizedRows[0].Date).toBe(45322);
+  });
+
+  it("keeps 1900 date system serials and reads text dates in the profile's order", async () => {
+    const realized = workbookBuffer(
+      [HEADERS, ["AAPL", dateCell(JAN_5), "08/01/2024", "BUY", -1000, "CQ1", 10, 100]],
+      false
+    );
+    const { vintageData } = await ExcelProcessor.processFiles(realized, UNREALIZED, {
+      profile: { ...DEFAULT_MAPPING_PROFILE, dateOrder: "eu" },
+    });
+
+    expect(vintageData[0].realizedRows[0]).toMatchObject({ TradeDate: JAN_5, "Settle Date": JAN_8 });
+  });
+
+  it("reports the number of sheets of each generated workbook", async () => {
+    const realized = workbookBuffer([HEADERS, TRADE_1904], true);
+    const { results, buffers } = await ExcelProcessor.processAndGenerateFiles(realized, UNREALIZED);
+
+    expect(results[0].sheetCount).toBe(XLSX.read(buffers[0]).SheetNames.length);
+    expect(results[0].sheetCount).toBe(12);
+  });
+
+  it("formats every date column of the Realized sheet as a date", async () => {
+    const realized = workbookBuffer([HEADERS, TRADE_1904], true);
+    const { vintageData } = await ExcelProcessor.processFiles(realized, UNREALIZED);
+    const workbook = XLSX.read(await ExcelProcessor.generateVintageExcel(vintageData[0]), {
+      cellNF: true,
+    });
+    const sheet = workbook.Sheets["Realized"];
+
+    expect(sheet["B2"]).toMatchObject({ v: JAN_5, z: "yyyy-mm-dd" });
+    expect(sheet["C2"]).toMatchObject({ v: JAN_8, z: "yyyy-mm-dd" });
+  });
+});
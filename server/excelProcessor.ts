@@ -1,20 +1,166 @@
 import * as XLSX from "xlsx";
-import type { VintageResult } from "@shared/schema";
+import type {
+  ColumnType,
+  DuplicateOptions,
+  LotMethod,
+  WashSaleScope,
+  ReconciliationLine,
+  FilePreview,
+  HeaderRows,
+  MappingProfile,
+  SheetInfo,
+  SheetSelection,
+  SourceFileKind,
+  SourceSheet,
+  PreviewResponse,
+  TwrMethod,
+  VintageResult,
+} from "@shared/schema";
+import { inferColumnType } from "./columnTypes";
+import { validateSources, type ValidationResult } from "./validation";
+import {
+  DUPLICATE_COLUMN,
+  buildDuplicatesSheet,
+  detectDuplicates,
+  type DuplicateMatch,
+  type DuplicateResult,
+} from "./duplicates";
+import {
+  buildReconciliationSheet,
+  reconcileVintage,
+  summarizeReconciliation,
+} from "./reconciliation";
+import { LOTS_HEADER_ROW, buildLotsSheet, matchLots, type LotLine } from "./taxLots";
+import {
+  buildCapitalGainsSheet,
+  classifyGains,
+  DEFAULT_LONG_TERM_DAYS,
+} from "./capitalGains";
+import {
+  buildReturnsSheet,
+  collectCashFlows,
+  summarizeReturns,
+  type VintageCashFlows,
+} from "./returns";
+import {
+  buildVintageSummarySheet,
+  collectCapital,
+  summarizeVintageMetrics,
+  type SymbolCapital,
+} from "./vintageMetrics";
+import { collectVintageOverview, generateAllVintagesWorkbook } from "./allVintages";
+import { CHARTS_SHEET, buildChartsSheet, collectChartData, embedCharts } from "./charts";
+import {
+  CURRENCY_FORMAT,
+  DATE_FORMAT,
+  addTables,
+  autofitColumns,
+  buildSourceTableSheet,
+  highlightNegatives,
+  pnlRanges,
+  type TableSpec,
+} from "./excelTables";
+import { loadPackage, savePackage } from "./xlsxPackage";
+import {
+  analyzeWashSales,
+  applyWashSales,
+  buildWashSalesSheet,
+  type WashSaleLine,
+} from "./washSales";
+import {
+  buildTwrSheet,
+  computeTwr,
+  readPriceHistory,
+  summarizeTwr,
+  type VintageTwrData,
+} from "./twr";
+import { readWorkbook } from "./sourceReader";
+import { normalizeDateColumn, usesDate1904 } from "./excelDates";
+import { detectHeaderRow, readHeaderCells, readRowsFromHeader } from "./headerDetection";
+import {
+  DEFAULT_MAPPING_PROFILE,
+  excelString,
+  getHeaders,
+  missingRequiredColumns,
+  resolveMapping,
+  tableColumn,
+  tableRowCell,
+  type ResolvedMapping,
+} from "./columnMapping";
 
-interface VintageData {
+// Number of rows returned per file by the data preview
+const PREVIEW_ROW_LIMIT = 50;
+
+// Bumped whenever the layout or formulas of generated workbooks change
+export const GENERATOR_VERSION = "1.14.0";
+
+// Table name of the Initial Purchase sheet; table names cannot have spaces
+const INITIAL_PURCHASE_TABLE = "InitialPurchase";
+
+export interface ProcessOptions {
+  profile?: MappingProfile;
+  // 1-based header row per file; detected automatically when omitted
+  headerRows?: Partial<HeaderRows>;
+  // Sheets to read per file; the first sheet when omitted
+  sheets?: Partial<Record<SourceFileKind, SheetSelection>>;
+  // Duplicate realized trade detection; keeps duplicates by default
+  duplicates?: DuplicateOptions;
+  // Lot matching method for the Lots sheet; FIFO when omitted
+  lotMethod?: LotMethod;
+  // Holding days after which a closed lot is long-term; 365 when omitted
+  longTermDays?: number;
+  // Where wash sale replacement BUYs may come from; the sale's vintage when omitted
+  washSaleScope?: WashSaleScope;
+  // Sub-period linking for time-weighted returns; daily when omitted
+  twrMethod?: TwrMethod;
+  // Optional price history upload valuing holdings between trades
+  priceHistory?: Buffer;
+}
+
+type SourceSheets = Record<SourceFileKind, SourceSheet[]>;
+
+const FILE_LABELS: Record<SourceFileKind, string> = {
+  realized: "Realized",
+  unrealized: "Unrealized",
+};
+
+export interface VintageData {
   vintageName: string;
   realizedRows: any[];
   unrealizedRows: any[];
+  realizedHeaders: string[];
+  unrealizedHeaders: string[];
+  // Source columns holding dates, stored as 1900 date system serials
+  realizedDateColumns: string[];
+  unrealizedDateColumns: string[];
+  mapping: ResolvedMapping;
+  duplicates: DuplicateResult;
+  // Duplicate rows belonging to this vintage
+  duplicateMatches: DuplicateMatch[];
+  // Undefined when the quantity columns are missing
+  reconciliation?: ReconciliationLine[];
+  lotMethod: LotMethod;
+  // Undefined when the realized quantity column is missing
+  lots?: LotLine[];
+  longTermDays: number;
+  washSaleScope: WashSaleScope;
+  // Undefined when the realized quantity column is missing
+  washSales?: WashSaleLine[];
+  // Undefined when the vintage has no dated cash flows
+  cashFlows?: VintageCashFlows;
+  capital: SymbolCapital[];
+  // Undefined when the realized quantity column is missing or no trades are dated
+  twr?: VintageTwrData;
 }
 
 export class ExcelProcessor {
   /**
    * Extract unique vintage names from worksheet data
    */
-  private static extractVintages(data: any[]): Set<string> {
+  private static extractVintages(data: any[], vintageColumn: string): Set<string> {
     const vintages = new Set<string>();
     for (const row of data) {
-      const vintage = row["Vintage"] || row["vintage"];
+      const vintage = row[vintageColumn];
       if (vintage) {
         vintages.add(String(vintage).trim());
       }
@@ -25,9 +171,13 @@ export class ExcelProcessor {
   /**
    * Filter rows by vintage name
    */
-  private static filterRowsByVintage(data: any[], vintageName: string): any[] {
+  private static filterRowsByVintage(
+    data: any[],
+    vintageColumn: string,
+    vintageName: string
+  ): any[] {
     return data.filter((row: any) => {
-      const vintage = row["Vintage"] || row["vintage"];
+      const vintage = row[vintageColumn];
       return vintage && String(vintage).trim() === vintageName;
     });
   }
@@ -35,54 +185,359 @@ export class ExcelProcessor {
   /**
    * Get unique symbols from realized data
    */
-  private static getUniqueSymbols(realizedRows: any[]): string[] {
+  private static getUniqueSymbols(realizedRows: any[], symbolColumn: string): string[] {
     const symbols = new Set<string>();
     for (const row of realizedRows) {
-      if (row["Symbol"]) {
-        symbols.add(String(row["Symbol"]).trim());
+      if (row[symbolColumn]) {
+        symbols.add(String(row[symbolColumn]).trim());
       }
     }
     return Array.from(symbols).sort();
   }
 
   /**
-   * Process Excel files and return data organized by vintage
+   * First buy date per symbol and the amount bought that day, the values
+   * the Initial Purchase formulas evaluate to
+   */
+  private static firstPurchases(
+    realizedRows: any[],
+    mapping: ResolvedMapping
+  ): Map<string, { date: number; amount: number }> {
+    const { symbol, tradeDate, side, amount } = mapping.realized;
+    const buy = mapping.buyValue.trim().toLowerCase();
+    const purchases = new Map<string, { date: number; amount: number }>();
+    for (const row of realizedRows) {
+      const date = row[tradeDate!];
+      if (String(row[side!] ?? "").trim().toLowerCase() !== buy || typeof date !== "number") continue;
+      const name = String(row[symbol!] ?? "").trim();
+      const bought = typeof row[amount!] === "number" ? row[amount!] : 0;
+      const first = purchases.get(name);
+      if (!first || date < first.date) purchases.set(name, { date, amount: bought });
+      else if (date === first.date) first.amount += bought;
+    }
+    return purchases;
+  }
+
+  /**
+   * Use the explicit 1-based header row if given, otherwise detect it from
+   * the profile's header names. Returns a 0-based row index.
+   */
+  private static resolveHeaderRow(
+    sheet: XLSX.WorkSheet,
+    knownHeaders: string[],
+    override?: number
+  ): number {
+    if (override !== undefined) {
+      return override - 1;
+    }
+    return detectHeaderRow(sheet, knownHeaders);
+  }
+
+  private static knownHeaders(kind: SourceFileKind, profile: MappingProfile): string[] {
+    return Object.values(kind === "realized" ? profile.realized : profile.unrealized);
+  }
+
+  /**
+   * Read the selected sheets of a source workbook and concatenate their rows
+   */
+  private static readSourceRows(
+    workbook: XLSX.WorkBook,
+    kind: SourceFileKind,
+    profile: MappingProfile,
+    selection?: SheetSelection,
+    headerRowOverride?: number,
+    formatted = false
+  ): { rows: any[]; sheets: SourceSheet[] } {
+    const label = FILE_LABELS[kind];
+    const knownHeaders = this.knownHeaders(kind, profile);
+
+    if (workbook.SheetNames.length === 0) {
+      throw new Error(`${label} file has no sheets`);
+    }
+
+    let sheetNames: string[];
+    if (!selection) {
+      sheetNames = [workbook.SheetNames[0]];
+    } else if (selection === "all") {
+      sheetNames = workbook.SheetNames.filter((name) => {
+        const sheet = workbook.Sheets[name];
+        const headerRow = this.resolveHeaderRow(sheet, knownHeaders, headerRowOverride);
+        return missingRequiredColumns(kind, profile, readHeaderCells(sheet, headerRow)).length === 0;
+      });
+      if (sheetNames.length === 0) {
+        throw new Error(`${label} file has no sheets with the required columns`);
+      }
+    } else {
+      for (const name of selection) {
+        if (!workbook.Sheets[name]) {
+          throw new Error(`${label} file has no sheet named '${name}'`);
+        }
+      }
+      sheetNames = selection;
+    }
+
+    let rows: any[] = [];
+    const sheets: SourceSheet[] = [];
+    for (const sheetName of sheetNames) {
+      // Locate the header row, skipping any title banner above it
+      const sheet = workbook.Sheets[sheetName];
+      const headerRow = this.resolveHeaderRow(sheet, knownHeaders, headerRowOverride);
+      const sheetRows = readRowsFromHeader(sheet, headerRow, formatted);
+      rows = rows.concat(sheetRows);
+      sheets.push({ sheetName, headerRow: headerRow + 1, rowCount: sheetRows.length });
+    }
+    return { rows, sheets };
+  }
+
+  /**
+   * List the sheets of an uploaded file with their detected header row,
+   * data row count and header names
+   */
+  static inspectSheets(
+    buffer: Buffer,
+    kind: SourceFileKind,
+    profile: MappingProfile = DEFAULT_MAPPING_PROFILE
+  ): SheetInfo[] {
+    const workbook = readWorkbook(buffer);
+    const knownHeaders = this.knownHeaders(kind, profile);
+
+    return workbook.SheetNames.map((sheetName) => {
+      const sheet = workbook.Sheets[sheetName];
+      const headerRow = detectHeaderRow(sheet, knownHeaders);
+      const headers = readHeaderCells(sheet, headerRow);
+      return {
+        sheetName,
+        headerRow: headerRow + 1,
+        rowCount: readRowsFromHeader(sheet, headerRow).length,
+        headers,
+        matchesProfile: missingRequiredColumns(kind, profile, headers).length === 0,
+      };
+    });
+  }
+
+  /**
+   * Infer each column's type from its raw values and their displayed text
+   */
+  private static inferColumnTypes(rows: any[], formattedRows: any[]): Record<string, ColumnType> {
+    const columnTypes: Record<string, ColumnType> = {};
+    for (const header of getHeaders(rows)) {
+      columnTypes[header] = inferColumnType(
+        rows.map((row) => row[header]),
+        formattedRows.map((row) => row[header])
+      );
+    }
+    return columnTypes;
+  }
+
+  /**
+   * Columns of a source file holding dates: the mapped date column and every
+   * other column whose values read as dates
+   */
+  private static dateColumns(
+    workbook: XLSX.WorkBook,
+    kind: SourceFileKind,
+    profile: MappingProfile,
+    options: ProcessOptions,
+    rows: any[],
+    mappedColumn: string | undefined
+  ): string[] {
+    const formattedRows = this.readSourceRows(
+      workbook,
+      kind,
+      profile,
+      options.sheets?.[kind],
+      options.headerRows?.[kind],
+      true
+    ).rows;
+    const columnTypes = this.inferColumnTypes(rows, formattedRows);
+    return getHeaders(rows).filter(
+      (header) => header === mappedColumn || columnTypes[header] === "date"
+    );
+  }
+
+  /**
+   * Parse one source file the same way processFiles would and summarize it:
+   * headers, inferred column types, the first rows as displayed text and the
+   * vintages found
+   */
+  private static previewSource(
+    workbook: XLSX.WorkBook,
+    kind: SourceFileKind,
+    options: ProcessOptions
+  ): FilePreview {
+    const profile = options.profile ?? DEFAULT_MAPPING_PROFILE;
+    const selection = options.sheets?.[kind];
+    const headerRow = options.headerRows?.[kind];
+
+    const { rows, sheets } = this.readSourceRows(workbook, kind, profile, selection, headerRow);
+    const formattedRows = this.readSourceRows(
+      workbook,
+      kind,
+      profile,
+      selection,
+      headerRow,
+      true
+    ).rows;
+
+    const headers = getHeaders(rows);
+    const columnTypes = this.inferColumnTypes(rows, formattedRows);
+
+    const missingColumns = missingRequiredColumns(kind, profile, headers);
+    const vintageHeader = headers.find(
+      (header) =>
+        header.trim().toLowerCase() ===
+        (kind === "realized" ? profile.realized : profile.unrealized).vintage.trim().toLowerCase()
+    );
+    const vintages = vintageHeader
+      ? Array.from(this.extractVintages(rows, vintageHeader)).sort()
+      : [];
+
+    return {
+      sourceSheets: sheets,
+      headers,
+      columnTypes,
+      rows: formattedRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => {
+        const values: Record<string, string> = {};
+        for (const header of headers) {
+          if (row[header] !== undefined) values[header] = String(row[header]);
+        }
+        return values;
+      }),
+      totalRows: rows.length,
+      vintages,
+      missingColumns,
+    };
+  }
+
+  /**
+   * Preview both source files without generating any workbooks
+   */
+  static previewFiles(
+    realizedBuffer: Buffer,
+    unrealizedBuffer: Buffer,
+    options: ProcessOptions = {}
+  ): PreviewResponse {
+    return {
+      realized: this.previewSource(readWorkbook(realizedBuffer), "realized", options),
+      unrealized: this.previewSource(readWorkbook(unrealizedBuffer), "unrealized", options),
+    };
+  }
+
+  /**
+   * Process Excel, CSV or TSV files and return data organized by vintage
    */
   static async processFiles(
     realizedBuffer: Buffer,
-    unrealizedBuffer: Buffer
-  ): Promise<VintageData[]> {
-    // Read the Excel files
-    const realizedWorkbook = XLSX.read(realizedBuffer, { type: "buffer" });
-    const unrealizedWorkbook = XLSX.read(unrealizedBuffer, { type: "buffer" });
+    unrealizedBuffer: Buffer,
+    options: ProcessOptions = {}
+  ): Promise<{
+    vintageData: VintageData[];
+    sourceSheets: SourceSheets;
+    validation: ValidationResult;
+    duplicates: DuplicateResult;
+  }> {
+    const profile = options.profile ?? DEFAULT_MAPPING_PROFILE;
+    const lotMethod = options.lotMethod ?? "fifo";
+    const longTermDays = options.longTermDays ?? DEFAULT_LONG_TERM_DAYS;
+    const washSaleScope = options.washSaleScope ?? "vintage";
+    const twrMethod = options.twrMethod ?? "daily";
+    const priceHistory = options.priceHistory && readPriceHistory(options.priceHistory, profile);
 
-    // Get the first sheet from each workbook
-    const realizedSheetName = realizedWorkbook.SheetNames[0];
-    const unrealizedSheetName = unrealizedWorkbook.SheetNames[0];
+    // Read the source files (Excel, CSV or TSV)
+    const realizedWorkbook = readWorkbook(realizedBuffer);
+    const unrealizedWorkbook = readWorkbook(unrealizedBuffer);
 
-    if (!realizedSheetName) {
-      throw new Error("Realized Excel file has no sheets");
-    }
+    // Convert the selected sheets to JSON
+    const realizedSource = this.readSourceRows(
+      realizedWorkbook,
+      "realized",
+      profile,
+      options.sheets?.realized,
+      options.headerRows?.realized
+    );
+    const unrealizedSource = this.readSourceRows(
+      unrealizedWorkbook,
+      "unrealized",
+      profile,
+      options.sheets?.unrealized,
+      options.headerRows?.unrealized
+    );
+    const unrealizedData = unrealizedSource.rows;
+
+    // Resolve the mapping profile against the headers actually present
+    let realizedHeaders = getHeaders(realizedSource.rows);
+    const unrealizedHeaders = getHeaders(unrealizedData);
+    const mapping = resolveMapping(profile, realizedHeaders, unrealizedHeaders);
+    const realizedVintageColumn = mapping.realized.vintage!;
+    const unrealizedVintageColumn = mapping.unrealized.vintage!;
 
-    if (!unrealizedSheetName) {
-      throw new Error("Unrealized Excel file has no sheets");
+    // Turn trade and position dates, and any other date columns, into 1900
+    // date system serials, whatever the source wrote, so sheets, formulas and
+    // calculations see real dates
+    const realizedDateColumns = this.dateColumns(
+      realizedWorkbook,
+      "realized",
+      profile,
+      options,
+      realizedSource.rows,
+      mapping.realized.tradeDate
+    );
+    const unrealizedDateColumns = this.dateColumns(
+      unrealizedWorkbook,
+      "unrealized",
+      profile,
+      options,
+      unrealizedData,
+      mapping.unrealized.date
+    );
+    for (const column of realizedDateColumns) {
+      normalizeDateColumn(
+        realizedSource.rows,
+        column,
+        mapping.dateOrder,
+        usesDate1904(realizedWorkbook)
+      );
     }
+    for (const column of unrealizedDateColumns) {
+      normalizeDateColumn(
+        unrealizedData,
+        column,
+        mapping.dateOrder,
+        usesDate1904(unrealizedWorkbook)
+      );
+    }
+
+    // Check every row before the vintage split drops rows without a vintage
+    const validation = validateSources(
+      { ...realizedSource, headers: realizedHeaders },
+      { ...unrealizedSource, headers: unrealizedHeaders },
+      mapping
+    );
 
-    // Convert sheets to JSON
-    const realizedData = XLSX.utils.sheet_to_json(realizedWorkbook.Sheets[realizedSheetName]);
-    const unrealizedData = XLSX.utils.sheet_to_json(unrealizedWorkbook.Sheets[unrealizedSheetName]);
+    // Find repeated fills before the vintage split and keep, drop or flag them
+    const duplicates = detectDuplicates(
+      realizedSource.rows,
+      realizedSource.sheets,
+      mapping,
+      options.duplicates
+    );
+    const realizedData = duplicates.rows;
+    if (duplicates.options.handling === "flag" && duplicates.matches.length > 0) {
+      // Appended last so the formula column references stay put
+      realizedHeaders = [...realizedHeaders, DUPLICATE_COLUMN];
+    }
 
     // Extract unique vintages from both files
-    const realizedVintages = this.extractVintages(realizedData);
-    const unrealizedVintages = this.extractVintages(unrealizedData);
+    const realizedVintages = this.extractVintages(realizedData, realizedVintageColumn);
+    const unrealizedVintages = this.extractVintages(unrealizedData, unrealizedVintageColumn);
 
     // Validate that both files have a Vintage column
     if (realizedVintages.size === 0) {
-      throw new Error("Realized Excel file does not contain a 'Vintage' column");
+      throw new Error(`Realized file has no values in the '${realizedVintageColumn}' column`);
     }
 
     if (unrealizedVintages.size === 0) {
-      throw new Error("Unrealized Excel file does not contain a 'Vintage' column");
+      throw new Error(`Unrealized file has no values in the '${unrealizedVintageColumn}' column`);
     }
 
     // Combine all unique vintages
@@ -92,20 +547,78 @@ export class ExcelProcessor {
     const vintageDataArray: VintageData[] = [];
 
     for (const vintageName of Array.from(allVintages)) {
-      const realizedRows = this.filterRowsByVintage(realizedData, vintageName);
-      const unrealizedRows = this.filterRowsByVintage(unrealizedData, vintageName);
+      const realizedRows = this.filterRowsByVintage(
+        realizedData,
+        realizedVintageColumn,
+        vintageName
+      );
+      const unrealizedRows = this.filterRowsByVintage(
+        unrealizedData,
+        unrealizedVintageColumn,
+        vintageName
+      );
+      const cashFlows = collectCashFlows(realizedRows, unrealizedRows, mapping);
 
       vintageDataArray.push({
         vintageName,
         realizedRows,
         unrealizedRows,
+        realizedHeaders,
+        unrealizedHeaders,
+        realizedDateColumns,
+        unrealizedDateColumns,
+        mapping,
+        duplicates,
+        duplicateMatches: duplicates.matches.filter(
+          (match) => String(match.values[realizedVintageColumn] ?? "").trim() === vintageName
+        ),
+        reconciliation: reconcileVintage(realizedRows, unrealizedRows, mapping),
+        lotMethod,
+        lots: matchLots(realizedRows, mapping, lotMethod),
+        longTermDays,
+        washSaleScope,
+        cashFlows,
+        capital: collectCapital(realizedRows, mapping, cashFlows),
+        twr: computeTwr(
+          realizedRows,
+          unrealizedRows,
+          mapping,
+          twrMethod,
+          cashFlows?.asOf,
+          priceHistory
+        ),
       });
     }
 
     // Sort by vintage name for consistent ordering
     vintageDataArray.sort((a, b) => a.vintageName.localeCompare(b.vintageName));
 
-    return vintageDataArray;
+    // Wash sales may look for replacement BUYs beyond a vintage, so they are
+    // found once every vintage's lots are matched, then roll the disallowed
+    // losses into the lots every later sheet and report reads
+    const washSales = analyzeWashSales(
+      vintageDataArray.map(({ vintageName, realizedRows, lots }) => ({
+        vintageName,
+        rows: realizedRows,
+        lots,
+      })),
+      mapping,
+      washSaleScope
+    );
+    for (const vintage of vintageDataArray) {
+      vintage.washSales = washSales.get(vintage.vintageName);
+      vintage.lots = applyWashSales(vintage.vintageName, vintage.lots, washSales);
+    }
+
+    return {
+      vintageData: vintageDataArray,
+      sourceSheets: {
+        realized: realizedSource.sheets,
+        unrealized: unrealizedSource.sheets,
+      },
+      validation,
+      duplicates,
+    };
   }
 
   /**
@@ -114,12 +627,26 @@ export class ExcelProcessor {
   static async generateVintageExcel(vintageData: VintageData): Promise<Buffer> {
     const workbook = XLSX.utils.book_new();
 
-    // Create the Realized sheet
-    const realizedSheet = XLSX.utils.json_to_sheet(vintageData.realizedRows);
+    // Create the Realized and Unrealized sheets as Excel tables, keeping the
+    // source column order so the table columns match the headers
+    const { sheet: realizedSheet, table: realizedTable } = buildSourceTableSheet(
+      "realized",
+      "Realized",
+      vintageData.realizedRows,
+      vintageData.realizedHeaders,
+      vintageData.realizedDateColumns,
+      vintageData.mapping
+    );
     XLSX.utils.book_append_sheet(workbook, realizedSheet, "Realized");
 
-    // Create the Unrealized sheet
-    const unrealizedSheet = XLSX.utils.json_to_sheet(vintageData.unrealizedRows);
+    const { sheet: unrealizedSheet, table: unrealizedTable } = buildSourceTableSheet(
+      "unrealized",
+      "Unrealized",
+      vintageData.unrealizedRows,
+      vintageData.unrealizedHeaders,
+      vintageData.unrealizedDateColumns,
+      vintageData.mapping
+    );
     XLSX.utils.book_append_sheet(workbook, unrealizedSheet, "Unrealized");
 
     // Create the Initial Purchase sheet with Excel formulas
@@ -130,25 +657,45 @@ export class ExcelProcessor {
     initialPurchaseSheet['B1'] = { v: 'First Purchase Date', t: 's' };
     initialPurchaseSheet['C1'] = { v: 'Initial Amount', t: 's' };
     
-    // Get unique symbols and add them with formulas
-    const uniqueSymbols = this.getUniqueSymbols(vintageData.realizedRows);
+    // Resolve structured column references from the mapping profile
+    const { realized, buyValue } = vintageData.mapping;
+    const headers = vintageData.realizedHeaders;
+    const symbolRange = tableColumn("Realized", headers, realized.symbol!);
+    const dateRange = tableColumn("Realized", headers, realized.tradeDate!);
+    const sideRange = tableColumn("Realized", headers, realized.side!);
+    const amountRange = tableColumn("Realized", headers, realized.amount!);
+    const buy = excelString(buyValue);
+    const symbolCell = tableRowCell(INITIAL_PURCHASE_TABLE, "Symbol");
+    const dateCell = tableRowCell(INITIAL_PURCHASE_TABLE, "First Purchase Date");
+    const firstPurchaseFormula = `MINIFS(${dateRange},${symbolRange},${symbolCell},${sideRange},${buy})`;
+    const initialAmountFormula =
+      `SUMIFS(${amountRange},${dateRange},${dateCell},${symbolRange},${symbolCell},${sideRange},${buy})`;
+
+    // Get unique symbols and add them with formulas, caching the values
+    // they evaluate to for viewers that do not recalculate
+    const uniqueSymbols = this.getUniqueSymbols(vintageData.realizedRows, realized.symbol!);
+    const purchases = this.firstPurchases(vintageData.realizedRows, vintageData.mapping);
     uniqueSymbols.forEach((symbol, index) => {
       const rowNum = index + 2; // Excel rows are 1-indexed, +1 for header
+      const purchase = purchases.get(symbol);
       
       // Column A: Symbol
       initialPurchaseSheet[`A${rowNum}`] = { v: symbol, t: 's' };
       
-      // Column B: First Purchase Date formula
+      // Column B: First Purchase Date formula, a serial date shown as a date
       initialPurchaseSheet[`B${rowNum}`] = {
-        f: `MINIFS(Realized!K:K,Realized!G:G,'Initial Purchase'!A${rowNum},Realized!M:M,"BUY")`,
-        t: 'd'
+        f: firstPurchaseFormula,
+        v: purchase?.date ?? 0,
+        t: 'n',
+        z: DATE_FORMAT
       };
       
       // Column C: Initial Amount formula
       initialPurchaseSheet[`C${rowNum}`] = {
-        f: `SUMIFS(Realized!P:P,Realized!K:K,'Initial Purchase'!B${rowNum},Realized!G:G,'Initial Purchase'!A${rowNum},Realized!M:M,"BUY")`,
+        f: initialAmountFormula,
+        v: purchase?.amount ?? 0,
         t: 'n',
-        z: '0.00'  // Number format for currency
+        z: CURRENCY_FORMAT
       };
     });
     
@@ -156,34 +703,159 @@ export class ExcelProcessor {
     const endRow = uniqueSymbols.length + 1;
     initialPurchaseSheet['!ref'] = `A1:C${endRow}`;
     
-    // Set column widths
-    initialPurchaseSheet['!cols'] = [
-      { wch: 15 }, // Symbol
-      { wch: 20 }, // First Purchase Date
-      { wch: 15 }  // Initial Amount
-    ];
+    // Fit column widths to the headers and symbols
+    autofitColumns(initialPurchaseSheet);
 
     // Add the Initial Purchase sheet to the workbook
     XLSX.utils.book_append_sheet(workbook, initialPurchaseSheet, "Initial Purchase");
+    const initialPurchaseTable: TableSpec = {
+      sheetName: "Initial Purchase",
+      tableName: INITIAL_PURCHASE_TABLE,
+      columns: [
+        { name: "Symbol" },
+        { name: "First Purchase Date", formula: firstPurchaseFormula },
+        { name: "Initial Amount", formula: initialAmountFormula },
+      ],
+      rowCount: uniqueSymbols.length,
+    };
+
+    // List the duplicate handling and this vintage's duplicate rows
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildDuplicatesSheet(vintageData.duplicates, vintageData.duplicateMatches),
+      "Duplicates"
+    );
+
+    // Compare net realized shares with unrealized positions per symbol
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildReconciliationSheet(vintageData.reconciliation),
+      "Reconciliation"
+    );
+
+    // Match SELLs against BUY lots with the run's lot method
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildLotsSheet(vintageData.lots, vintageData.lotMethod),
+      "Lots"
+    );
 
-    // Generate buffer
+    // Classify closed lots as short- or long-term with SUMIFS totals per term
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildCapitalGainsSheet(
+        classifyGains(vintageData.lots, vintageData.longTermDays),
+        vintageData.longTermDays
+      ),
+      "Capital Gains"
+    );
+
+    // Loss sales with a replacement BUY within the wash sale window
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildWashSalesSheet(
+        vintageData.washSales,
+        vintageData.vintageName,
+        vintageData.washSaleScope
+      ),
+      "Wash Sales"
+    );
+
+    // Money-weighted returns with native XIRR formulas over the cash flows
+    XLSX.utils.book_append_sheet(workbook, buildReturnsSheet(vintageData.cashFlows), "Returns");
+
+    // Paid-in capital, distributions, residual value and fund-style multiples
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildVintageSummarySheet(
+        vintageData.capital,
+        vintageData.realizedHeaders,
+        vintageData.mapping
+      ),
+      "Vintage Summary"
+    );
+
+    // Time-weighted returns linked from sub-periods into months
+    XLSX.utils.book_append_sheet(workbook, buildTwrSheet(vintageData.twr), "Time-Weighted Return");
+
+    // Data tables for the native charts, which are added to the written file
+    const { sheet: chartsSheet, charts } = buildChartsSheet(
+      collectChartData(
+        vintageData.realizedRows,
+        vintageData.mapping,
+        vintageData.capital,
+        vintageData.lots
+      ),
+      vintageData.realizedHeaders,
+      vintageData.mapping
+    );
+    XLSX.utils.book_append_sheet(workbook, chartsSheet, CHARTS_SHEET);
+
+    // Generate buffer, then add the tables, conditional formats and charts
+    // SheetJS cannot write to the package
     const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
-    return buffer;
+    const workbookPackage = await loadPackage(buffer);
+    await addTables(workbookPackage, [realizedTable, unrealizedTable, initialPurchaseTable]);
+    await highlightNegatives(workbookPackage, [
+      { sheetName: "Realized", ranges: pnlRanges(realizedTable) },
+      { sheetName: "Unrealized", ranges: pnlRanges(unrealizedTable) },
+      {
+        sheetName: "Lots",
+        ranges: vintageData.lots
+          ? [`H${LOTS_HEADER_ROW + 1}:H${LOTS_HEADER_ROW + Math.max(vintageData.lots.length, 1)}`]
+          : [],
+      },
+    ]);
+    await embedCharts(workbookPackage, charts);
+    return savePackage(workbookPackage);
+  }
+
+  /**
+   * Generate the All Vintages workbook comparing every vintage of a run
+   */
+  static generateAllVintagesExcel(vintageDataArray: VintageData[]): Buffer {
+    return generateAllVintagesWorkbook(
+      vintageDataArray.map((vintage) =>
+        collectVintageOverview(
+          vintage.vintageName,
+          vintage.realizedRows,
+          vintage.mapping,
+          vintage.capital,
+          vintage.lots
+        )
+      )
+    );
   }
 
   /**
-   * Process files and generate all vintage Excel files
+   * Process files and generate all vintage Excel files; `buffers` holds each
+   * vintage's workbook in the order of `results`
    */
   static async processAndGenerateFiles(
     realizedBuffer: Buffer,
-    unrealizedBuffer: Buffer
-  ): Promise<{ vintageData: VintageData[]; results: VintageResult[] }> {
-    const vintageDataArray = await this.processFiles(realizedBuffer, unrealizedBuffer);
+    unrealizedBuffer: Buffer,
+    options: ProcessOptions = {}
+  ): Promise<{
+    vintageData: VintageData[];
+    results: VintageResult[];
+    buffers: Buffer[];
+    sourceSheets: SourceSheets;
+    validation: ValidationResult;
+    duplicates: DuplicateResult;
+  }> {
+    const {
+      vintageData: vintageDataArray,
+      sourceSheets,
+      validation,
+      duplicates,
+    } = await this.processFiles(realizedBuffer, unrealizedBuffer, options);
 
     const results: VintageResult[] = [];
+    const buffers: Buffer[] = [];
     
     for (const vintageData of vintageDataArray) {
       const buffer = await this.generateVintageExcel(vintageData);
+      buffers.push(buffer);
 
       results.push({
         vintageName: vintageData.vintageName,
@@ -191,9 +863,16 @@ export class ExcelProcessor {
         realizedRowCount: vintageData.realizedRows.length,
         unrealizedRowCount: vintageData.unrealizedRows.length,
         fileSize: buffer.length,
+        // Only the workbook part is read to count the sheets
+        sheetCount: XLSX.read(buffer, { type: "buffer", bookSheets: true }).SheetNames.length,
+        reconciliation:
+          vintageData.reconciliation && summarizeReconciliation(vintageData.reconciliation),
+        returns: vintageData.cashFlows && summarizeReturns(vintageData.cashFlows),
+        metrics: summarizeVintageMetrics(vintageData.capital),
+        twr: vintageData.twr && summarizeTwr(vintageData.twr),
       });
     }
 
-    return { vintageData: vintageDataArray, results };
+    return { vintageData: vintageDataArray, results, buffers, sourceSheets, validation, duplicates };
   }
 }
\ No newline at end of file
@@ -0,0 +1,243 @@
+import * as XLSX from "xlsx";
+import type JSZip from "jszip";
+import type { ResolvedMapping } from "./columnMapping";
+import {
+  CONTENT_TYPES,
+  RELATIONSHIP_TYPES,
+  addContentType,
+  addDifferentialFormat,
+  addRelationship,
+  escapeXml,
+  freezeRows,
+  insertWorksheetElement,
+  nextPartPath,
+  worksheetPath,
+} from "./xlsxPackage";
+
+const TABLE_STYLE = "TableStyleMedium2";
+
+export const DATE_FORMAT = "yyyy-mm-dd";
+export const CURRENCY_FORMAT = "#,##0.00";
+const QUANTITY_FORMAT = "#,##0.00##";
+const INTEGER_FORMAT = "#,##0";
+
+// Headers of source columns holding profit or loss figures, which get
+// currency formats and negative values highlighted
+const PNL_HEADER_PATTERN = /p&l|p\/l|pnl|gain|loss|profit/i;
+
+// Light red fill with dark red text, Excel's default highlight
+const NEGATIVE_FORMAT =
+  '<dxf><font><color rgb="FF9C0006"/></font>' +
+  '<fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf>';
+
+// Autofit bounds in characters; headers leave room for the filter button
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+const FILTER_BUTTON_WIDTH = 3;
+
+export interface TableColumn {
+  name: string;
+  // Formula Excel fills into rows added to the table
+  formula?: string;
+}
+
+// An Excel table over a sheet's header row and data rows from A1
+export interface TableSpec {
+  sheetName: string;
+  tableName: string;
+  columns: TableColumn[];
+  rowCount: number;
+}
+
+// Columns on another sheet whose negative values are highlighted
+export interface NegativeRange {
+  sheetName: string;
+  ranges: string[];
+}
+
+function isPnlHeader(header: string): boolean {
+  return PNL_HEADER_PATTERN.test(header);
+}
+
+/**
+ * Number format per source column: dates for the date columns,
+ * currency for amounts, prices, market values and P&L columns, quantities
+ * with two to four decimals (none when whole). Other numeric columns get a currency format when
+ * they hold fractions and are left alone otherwise, so IDs stay unformatted.
+ */
+function columnFormats(
+  kind: "realized" | "unrealized",
+  headers: string[],
+  rows: any[],
+  dates: string[],
+  mapping: ResolvedMapping
+): Map<string, string> {
+  const formats = new Map<string, string>();
+  const realized = mapping.realized;
+  const unrealized = mapping.unrealized;
+  const money =
+    kind === "realized"
+      ? [realized.amount, realized.price]
+      : [unrealized.price, unrealized.marketValue];
+  const quantities = kind === "realized" ? [realized.quantity] : [unrealized.quantity];
+  const identifiers = kind === "realized" ? [realized.tradeId, realized.lotId] : [];
+
+  for (const header of headers) {
+    const values = rows.map((row) => row[header]).filter((value) => typeof value === "number");
+    const fractional = values.some((value) => !Number.isInteger(value));
+    if (dates.includes(header)) formats.set(header, DATE_FORMAT);
+    else if (money.includes(header) || isPnlHeader(header)) formats.set(header, CURRENCY_FORMAT);
+    else if (quantities.includes(header)) {
+      formats.set(header, fractional ? QUANTITY_FORMAT : INTEGER_FORMAT);
+    }
+    else if (!identifiers.includes(header) && fractional) formats.set(header, CURRENCY_FORMAT);
+  }
+  return formats;
+}
+
+// Width a cell's value takes once formatted, in characters
+function displayWidth(cell: XLSX.CellObject | undefined): number {
+  if (!cell || cell.v === undefined) return 0;
+  if (cell.t !== "n") return String(cell.v).length;
+  if (cell.z === DATE_FORMAT) return DATE_FORMAT.length;
+  const decimals = cell.z === INTEGER_FORMAT ? 0 : cell.z ? 2 : 10;
+  return (cell.v as number).toLocaleString("en-US", { maximumFractionDigits: decimals }).length;
+}
+
+/**
+ * Set column widths to fit the widest header or value in each column
+ */
+export function autofitColumns(sheet: XLSX.WorkSheet): void {
+  if (!sheet["!ref"]) return;
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const cols: XLSX.ColInfo[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const header = sheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+    let width = displayWidth(header) + FILTER_BUTTON_WIDTH;
+    for (let r = range.s.r + 1; r <= range.e.r; r++) {
+      width = Math.max(width, displayWidth(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    cols[c] = { wch: Math.min(Math.max(width + 1, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH) };
+  }
+  sheet["!cols"] = cols;
+}
+
+/**
+ * Build a source data sheet (Realized or Unrealized) in the given header
+ * order with typed number formats and fitted column widths, and the table
+ * spec that makes it an Excel table
+ */
+export function buildSourceTableSheet(
+  kind: "realized" | "unrealized",
+  tableName: string,
+  rows: any[],
+  headers: string[],
+  dateColumns: string[],
+  mapping: ResolvedMapping
+): { sheet: XLSX.WorkSheet; table: TableSpec } {
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: headers });
+  const formats = columnFormats(kind, headers, rows, dateColumns, mapping);
+
+  headers.forEach((header, c) => {
+    const format = formats.get(header);
+    if (!format) return;
+    for (let r = 1; r <= rows.length; r++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell?.t === "n") cell.z = format;
+    }
+  });
+  autofitColumns(sheet);
+
+  return {
+    sheet,
+    table: {
+      sheetName: tableName,
+      tableName,
+      columns: headers.map((name) => ({ name })),
+      rowCount: rows.length,
+    },
+  };
+}
+
+/**
+ * Data ranges of a table's P&L columns, for highlighting negatives
+ */
+export function pnlRanges(table: TableSpec): string[] {
+  const lastRow = Math.max(table.rowCount, 1) + 1;
+  return table.columns
+    .map((column, c) => (isPnlHeader(column.name) ? XLSX.utils.encode_col(c) : undefined))
+    .filter((column): column is string => column !== undefined)
+    .map((column) => `${column}2:${column}${lastRow}`);
+}
+
+function tableXml(table: TableSpec, id: number): string {
+  const lastColumn = XLSX.utils.encode_col(table.columns.length - 1);
+  // A table needs at least one data row, left blank when there are none
+  const ref = `A1:${lastColumn}${Math.max(table.rowCount, 1) + 1}`;
+  const columns = table.columns
+    .map((column, index) => {
+      const attributes = `id="${index + 1}" name="${escapeXml(column.name)}"`;
+      return column.formula
+        ? `<tableColumn ${attributes}><calculatedColumnFormula>${escapeXml(column.formula)}` +
+            `</calculatedColumnFormula></tableColumn>`
+        : `<tableColumn ${attributes}/>`;
+    })
+    .join("");
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<table xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" id="${id}" ` +
+    `name="${escapeXml(table.tableName)}" displayName="${escapeXml(table.tableName)}" ref="${ref}" ` +
+    `totalsRowShown="0"><autoFilter ref="${ref}"/>` +
+    `<tableColumns count="${table.columns.length}">${columns}</tableColumns>` +
+    `<tableStyleInfo name="${TABLE_STYLE}" showFirstColumn="0" showLastColumn="0" ` +
+    `showRowStripes="1" showColumnStripes="0"/></table>`
+  );
+}
+
+/**
+ * Add Excel tables to a written workbook package: one table part per spec
+ * with a banded style and header filter buttons, and the sheet's header
+ * row frozen
+ */
+export async function addTables(zip: JSZip, tables: TableSpec[]): Promise<void> {
+  for (const table of tables) {
+    const sheetPath = await worksheetPath(zip, table.sheetName);
+    const tablePath = nextPartPath(zip, "xl/tables", "table");
+    const id = Number(tablePath.match(/(\d+)\.xml$/)![1]);
+
+    zip.file(tablePath, tableXml(table, id));
+    await addContentType(zip, tablePath, CONTENT_TYPES.table);
+    const relationshipId = await addRelationship(
+      zip,
+      sheetPath,
+      RELATIONSHIP_TYPES.table,
+      `../tables/${tablePath.split("/").pop()}`
+    );
+    await insertWorksheetElement(
+      zip,
+      sheetPath,
+      `<tableParts count="1"><tablePart r:id="${relationshipId}"/></tableParts>`
+    );
+    await freezeRows(zip, sheetPath, 2);
+  }
+}
+
+/**
+ * Highlight negative values in light red on the given sheet ranges
+ */
+export async function highlightNegatives(zip: JSZip, negatives: NegativeRange[]): Promise<void> {
+  const targets = negatives.filter(({ ranges }) => ranges.length > 0);
+  if (targets.length === 0) return;
+
+  const dxfId = await addDifferentialFormat(zip, NEGATIVE_FORMAT);
+  for (const { sheetName, ranges } of targets) {
+    await insertWorksheetElement(
+      zip,
+      await worksheetPath(zip, sheetName),
+      `<conditionalFormatting sqref="${ranges.join(" ")}">` +
+        `<cfRule type="cellIs" dxfId="${dxfId}" priority="1" operator="lessThan">` +
+        `<formula>0</formula></cfRule></conditionalFormatting>`
+    );
+  }
+}
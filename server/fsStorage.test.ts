@@ -0,0 +1,104 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { VintageResult } from "@shared/schema";
+import { FileSystemStorage } from "./fsStorage";
+import type { RunOptions } from "./storage";
+
+const RUN_OPTIONS: RunOptions = {
+  generatorVersion: "1.0.0",
+  mappingProfile: "default",
+  lotMethod: "fifo",
+  longTermDays: 365,
+  washSaleScope: "vintage",
+  twrMethod: "daily",
+  duplicateKey: ["symbol", "tradeDate", "side"],
+  duplicateHandling: "keep",
+};
+
+const VINTAGE: VintageResult = {
+  vintageName: "CQ1",
+  filename: "CQ1_Portfolio.xlsx",
+  realizedRowCount: 4,
+  unrealizedRowCount: 2,
+  fileSize: 3,
+};
+
+const OPTIONS = { runTtlMs: 60_000, sweepIntervalMs: 60_000 };
+
+describe("FileSystemStorage", () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "fs-storage-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("reloads runs and shared blobs from disk", async () => {
+    const storage = new FileSystemStorage(rootDir, OPTIONS);
+    const first = await storage.createRun(RUN_OPTIONS);
+    const second = await storage.createRun(RUN_OPTIONS);
+    await storage.storeVintageFile(first.id, VINTAGE, Buffer.from("xls"));
+    await storage.storeVintageFile(second.id, VINTAGE, Buffer.from("xls"));
+    await storage.deleteRun(first.id);
+
+    const reopened = new FileSystemStorage(rootDir, OPTIONS);
+    expect((await reopened.listRuns()).map((run) => run.runId)).toEqual([second.id]);
+    expect((await reopened.getVintageFile(second.id, "CQ1"))?.toString()).toBe("xls");
+  });
+
+  it("removes blobs no run references when reopened", async () => {
+    const storage = new FileSystemStorage(rootDir, OPTIONS);
+    const run = await storage.createRun(RUN_OPTIONS);
+    await storage.storeVintageFile(run.id, VINTAGE, Buffer.from("xls"));
+
+    // As left by a crash before the manifest referencing the blob was written
+    const orphan = path.join(rootDir, "blobs", "ab", "ab".padEnd(64, "0"));
+    await fs.mkdir(path.dirname(orphan), { recursive: true });
+    await fs.writeFile(orphan, "orphan");
+
+    const reopened = new FileSystemStorage(rootDir, OPTIONS);
+    expect((await reopened.getVintageFile(run.id, "CQ1"))?.toString()).toBe("xls");
+    await expect(fs.access(orphan)).rejects.toThrow("ENOENT");
+  });
+
+  it("keeps a blob that a concurrent delete would otherwise collect", async () => {
+    const storage = new FileSystemStorage(rootDir, OPTIONS);
+    const kept = await storage.createRun(RUN_OPTIONS);
+    const deleted = await storage.createRun(RUN_OPTIONS);
+    await storage.storeVintageFile(deleted.id, VINTAGE, Buffer.from("xls"));
+
+    // Hold the store between finding the blob on disk and referencing it,
+    // long enough for the delete to collect the blob if nothing stops it
+    const access = fs.access.bind(fs);
+    vi.spyOn(fs, "access").mockImplementation(async (...args) => {
+      await access(...args);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    await Promise.all([
+      storage.storeVintageFile(kept.id, VINTAGE, Buffer.from("xls")),
+      storage.deleteRun(deleted.id),
+    ]);
+
+    expect((await storage.getVintageFile(kept.id, "CQ1"))?.toString()).toBe("xls");
+  });
+
+  it("reports a failed recovery from the calls that need it", async () => {
+    const file = path.join(rootDir, "not-a-directory");
+    await fs.writeFile(file, "");
+
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = new FileSystemStorage(file, OPTIONS);
+    // Recovery fails before any call awaits it, which must not be unhandled
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(logged).toHaveBeenCalled();
+    await expect(storage.listRuns()).rejects.toThrow("ENOTDIR");
+  });
+});
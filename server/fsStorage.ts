@@ -0,0 +1,509 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  DuplicateHandling,
+  DuplicateKeyField,
+  LotMethod,
+  MappingProfile,
+  ReportFile,
+  RunRecord,
+  SheetSelection,
+  StoredFileKind,
+  TwrMethod,
+  UploadedFile,
+  VintageResult,
+  WashSaleScope,
+} from "@shared/schema";
+import { DEFAULT_LONG_TERM_DAYS } from "./capitalGains";
+import { DEFAULT_DUPLICATE_OPTIONS } from "./duplicates";
+import type { IStorage, RetentionOptions, RunInfo, RunOptions } from "./storage";
+
+// Per-run manifest persisted as runs/<runId>.json
+interface RunManifest {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  generatorVersion: string;
+  mappingProfile: string;
+  // Absent from manifests written before lot methods existed
+  lotMethod?: LotMethod;
+  // Absent from manifests written before capital gains classification existed
+  longTermDays?: number;
+  // Absent from manifests written before wash sale detection existed
+  washSaleScope?: WashSaleScope;
+  // Absent from manifests written before time-weighted returns existed
+  twrMethod?: TwrMethod;
+  // 1-based header row overrides; absent when the header row was detected
+  realizedHeaderRow?: number;
+  unrealizedHeaderRow?: number;
+  // Sheets read from each source workbook; absent when the first sheet was read
+  realizedSheets?: SheetSelection;
+  unrealizedSheets?: SheetSelection;
+  // Absent from manifests written before duplicate options were stored
+  duplicateKey?: DuplicateKeyField[];
+  duplicateHandling?: DuplicateHandling;
+  sourceFiles: Partial<Record<StoredFileKind, { file: UploadedFile; sha256: string }>>;
+  vintages: Record<string, { vintage: VintageResult; sha256: string }>;
+  // Absent from manifests written before report files existed
+  reports?: Record<string, { report: ReportFile; sha256: string }>;
+}
+
+export class FileSystemStorage implements IStorage {
+  private manifests: Map<string, RunManifest>;
+  private mappingProfiles: Map<string, MappingProfile>;
+  private ready: Promise<void>;
+  // Tail of the queue that runs blob writes and blob garbage collection one
+  // at a time, so a blob found on disk cannot be collected before the
+  // manifest referencing it is updated
+  private blobQueue: Promise<unknown>;
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(
+    private rootDir: string,
+    private options: Pick<RetentionOptions, "runTtlMs" | "sweepIntervalMs">
+  ) {
+    this.manifests = new Map();
+    this.mappingProfiles = new Map();
+    this.blobQueue = Promise.resolve();
+    this.ready = this.recover();
+    // Every public method awaits recovery and reports its failure; this only
+    // keeps a failure nobody has asked about yet from going unhandled
+    this.ready.catch((error) => {
+      console.error(`Error recovering file storage at '${rootDir}':`, error);
+    });
+  }
+
+  /**
+   * Start the background sweeper that purges expired runs
+   */
+  startSweeper(): void {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => {
+      this.purgeExpiredRuns().catch((error) => {
+        console.error("Error purging expired runs:", error);
+      });
+    }, this.options.sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+
+  async createRun({
+    generatorVersion,
+    mappingProfile,
+    lotMethod,
+    longTermDays,
+    washSaleScope,
+    twrMethod,
+    realizedHeaderRow,
+    unrealizedHeaderRow,
+    realizedSheets,
+    unrealizedSheets,
+    duplicateKey,
+    duplicateHandling,
+  }: RunOptions): Promise<RunInfo> {
+    await this.ready;
+
+    const createdAt = new Date();
+    const manifest: RunManifest = {
+      id: randomUUID(),
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + this.options.runTtlMs).toISOString(),
+      generatorVersion,
+      mappingProfile,
+      lotMethod,
+      longTermDays,
+      washSaleScope,
+      twrMethod,
+      realizedHeaderRow,
+      unrealizedHeaderRow,
+      realizedSheets,
+      unrealizedSheets,
+      duplicateKey,
+      duplicateHandling,
+      sourceFiles: {},
+      vintages: {},
+      reports: {},
+    };
+    await this.writeManifest(manifest);
+    return this.toRunInfo(manifest);
+  }
+
+  async getRun(runId: string): Promise<RunInfo | undefined> {
+    await this.ready;
+    const manifest = this.getLiveManifest(runId);
+    return manifest && this.toRunInfo(manifest);
+  }
+
+  async listRuns(): Promise<RunRecord[]> {
+    await this.ready;
+
+    const now = new Date();
+    return Array.from(this.manifests.values())
+      .filter((manifest) => new Date(manifest.expiresAt) > now)
+      .map((manifest) => this.toRunRecord(manifest))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getRunRecord(runId: string): Promise<RunRecord | undefined> {
+    await this.ready;
+    const manifest = this.getLiveManifest(runId);
+    return manifest && this.toRunRecord(manifest);
+  }
+
+  async deleteRun(runId: string): Promise<boolean> {
+    await this.ready;
+
+    return this.withBlobLock(async () => {
+      const manifest = this.manifests.get(runId);
+      if (!manifest) return false;
+
+      this.manifests.delete(runId);
+      await fs.rm(this.manifestPath(runId), { force: true });
+      await this.removeUnreferencedBlobs(this.blobHashes(manifest));
+      return true;
+    });
+  }
+
+  async purgeExpiredRuns(now: Date = new Date()): Promise<number> {
+    await this.ready;
+
+    let purged = 0;
+    for (const manifest of Array.from(this.manifests.values())) {
+      if (new Date(manifest.expiresAt) <= now) {
+        await this.deleteRun(manifest.id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async storeSourceFile(
+    runId: string,
+    kind: StoredFileKind,
+    file: UploadedFile,
+    buffer: Buffer
+  ): Promise<void> {
+    await this.ready;
+
+    await this.withBlobLock(async () => {
+      const manifest = this.requireLiveManifest(runId);
+      const sha256 = await this.writeBlob(buffer);
+      const previous = manifest.sourceFiles[kind]?.sha256;
+      manifest.sourceFiles[kind] = { file, sha256 };
+      await this.writeManifest(manifest);
+
+      if (previous && previous !== sha256) {
+        await this.removeUnreferencedBlobs([previous]);
+      }
+    });
+  }
+
+  async storeVintageFile(runId: string, vintage: VintageResult, buffer: Buffer): Promise<string> {
+    await this.ready;
+
+    await this.withBlobLock(async () => {
+      const manifest = this.requireLiveManifest(runId);
+      const sha256 = await this.writeBlob(buffer);
+      const previous = manifest.vintages[vintage.vintageName]?.sha256;
+      manifest.vintages[vintage.vintageName] = { vintage, sha256 };
+      await this.writeManifest(manifest);
+
+      if (previous && previous !== sha256) {
+        await this.removeUnreferencedBlobs([previous]);
+      }
+    });
+    return vintage.vintageName;
+  }
+
+  async storeReportFile(runId: string, report: ReportFile, buffer: Buffer): Promise<void> {
+    await this.ready;
+
+    await this.withBlobLock(async () => {
+      const manifest = this.requireLiveManifest(runId);
+      const sha256 = await this.writeBlob(buffer);
+      const reports = (manifest.reports ??= {});
+      const previous = reports[report.name]?.sha256;
+      reports[report.name] = { report, sha256 };
+      await this.writeManifest(manifest);
+
+      if (previous && previous !== sha256) {
+        await this.removeUnreferencedBlobs([previous]);
+      }
+    });
+  }
+
+  async getSourceFile(runId: string, kind: StoredFileKind): Promise<Buffer | undefined> {
+    await this.ready;
+
+    const entry = this.getLiveManifest(runId)?.sourceFiles[kind];
+    return entry && this.readBlob(entry.sha256);
+  }
+
+  async getVintageFile(runId: string, vintageName: string): Promise<Buffer | undefined> {
+    await this.ready;
+
+    const entry = this.getLiveManifest(runId)?.vintages[vintageName];
+    return entry && this.readBlob(entry.sha256);
+  }
+
+  async getReportFile(runId: string, name: string): Promise<Buffer | undefined> {
+    await this.ready;
+
+    const entry = this.getLiveManifest(runId)?.reports?.[name];
+    return entry && this.readBlob(entry.sha256);
+  }
+
+  async clearVintageFiles(): Promise<void> {
+    await this.ready;
+
+    await this.withBlobLock(async () => {
+      this.manifests.clear();
+      await fs.rm(path.join(this.rootDir, "runs"), { recursive: true, force: true });
+      await fs.rm(path.join(this.rootDir, "blobs"), { recursive: true, force: true });
+    });
+  }
+
+  async listMappingProfiles(): Promise<MappingProfile[]> {
+    await this.ready;
+    return Array.from(this.mappingProfiles.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async getMappingProfile(name: string): Promise<MappingProfile | undefined> {
+    await this.ready;
+    return this.mappingProfiles.get(name);
+  }
+
+  async saveMappingProfile(profile: MappingProfile): Promise<MappingProfile> {
+    await this.ready;
+    this.mappingProfiles.set(profile.name, profile);
+    await this.writeMappingProfiles();
+    return profile;
+  }
+
+  async deleteMappingProfile(name: string): Promise<boolean> {
+    await this.ready;
+    if (!this.mappingProfiles.delete(name)) return false;
+    await this.writeMappingProfiles();
+    return true;
+  }
+
+  /**
+   * Rebuild the in-memory manifest index from disk, discarding leftover
+   * temp files, unreadable manifests and unreferenced blobs from an
+   * interrupted write
+   */
+  private async recover(): Promise<void> {
+    const runsDir = path.join(this.rootDir, "runs");
+    await fs.mkdir(runsDir, { recursive: true });
+    await fs.mkdir(path.join(this.rootDir, "blobs"), { recursive: true });
+    await fs.mkdir(path.join(this.rootDir, "tmp"), { recursive: true });
+
+    const tmpDir = path.join(this.rootDir, "tmp");
+    for (const entry of await fs.readdir(tmpDir)) {
+      await fs.rm(path.join(tmpDir, entry), { force: true });
+    }
+
+    try {
+      const profiles = JSON.parse(
+        await fs.readFile(this.mappingProfilesPath(), "utf8")
+      ) as MappingProfile[];
+      for (const profile of profiles) {
+        this.mappingProfiles.set(profile.name, profile);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Discarding unreadable mapping profiles:", error);
+      }
+    }
+
+    for (const entry of await fs.readdir(runsDir)) {
+      if (!entry.endsWith(".json")) continue;
+
+      try {
+        const manifest = JSON.parse(
+          await fs.readFile(path.join(runsDir, entry), "utf8")
+        ) as RunManifest;
+        this.manifests.set(manifest.id, manifest);
+      } catch (error) {
+        console.error(`Discarding unreadable run manifest '${entry}':`, error);
+        await fs.rm(path.join(runsDir, entry), { force: true });
+      }
+    }
+
+    // A crash between writing a blob and the manifest referencing it leaves
+    // the blob behind with nothing to ever collect it
+    const blobsDir = path.join(this.rootDir, "blobs");
+    for (const prefix of await fs.readdir(blobsDir, { withFileTypes: true })) {
+      if (!prefix.isDirectory()) continue;
+      await this.removeUnreferencedBlobs(await fs.readdir(path.join(blobsDir, prefix.name)));
+    }
+  }
+
+  /**
+   * Run a task once every blob write or garbage collection queued before it
+   * has finished
+   */
+  private withBlobLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.blobQueue.then(task);
+    this.blobQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Write a blob under its SHA-256, skipping the write if it already exists.
+   * Only called under the blob lock.
+   */
+  private async writeBlob(buffer: Buffer): Promise<string> {
+    const sha256 = createHash("sha256").update(buffer).digest("hex");
+    const blobPath = this.blobPath(sha256);
+
+    try {
+      await fs.access(blobPath);
+    } catch {
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      await this.writeAtomically(blobPath, buffer);
+    }
+    return sha256;
+  }
+
+  private async readBlob(sha256: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.blobPath(sha256));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private async writeMappingProfiles(): Promise<void> {
+    await this.writeAtomically(
+      this.mappingProfilesPath(),
+      Buffer.from(JSON.stringify(Array.from(this.mappingProfiles.values()), null, 2))
+    );
+  }
+
+  private async writeManifest(manifest: RunManifest): Promise<void> {
+    await this.writeAtomically(
+      this.manifestPath(manifest.id),
+      Buffer.from(JSON.stringify(manifest, null, 2))
+    );
+    this.manifests.set(manifest.id, manifest);
+  }
+
+  /**
+   * Write to a temp file and rename it into place so readers never see a
+   * partially written file
+   */
+  private async writeAtomically(target: string, data: Buffer): Promise<void> {
+    const tmpPath = path.join(this.rootDir, "tmp", randomUUID());
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, target);
+  }
+
+  private async removeUnreferencedBlobs(hashes: string[]): Promise<void> {
+    const referenced = new Set<string>();
+    for (const manifest of Array.from(this.manifests.values())) {
+      for (const hash of this.blobHashes(manifest)) {
+        referenced.add(hash);
+      }
+    }
+
+    for (const hash of hashes) {
+      if (!referenced.has(hash)) {
+        await fs.rm(this.blobPath(hash), { force: true });
+      }
+    }
+  }
+
+  private blobHashes(manifest: RunManifest): string[] {
+    return [
+      ...Object.values(manifest.sourceFiles).map((entry) => entry!.sha256),
+      ...Object.values(manifest.vintages).map((entry) => entry.sha256),
+      ...Object.values(manifest.reports ?? {}).map((entry) => entry.sha256),
+    ];
+  }
+
+  private getLiveManifest(runId: string): RunManifest | undefined {
+    const manifest = this.manifests.get(runId);
+    if (!manifest || new Date(manifest.expiresAt) <= new Date()) return undefined;
+    return manifest;
+  }
+
+  private requireLiveManifest(runId: string): RunManifest {
+    const manifest = this.getLiveManifest(runId);
+    if (!manifest) {
+      throw new Error(`Run '${runId}' not found or expired`);
+    }
+    return manifest;
+  }
+
+  private blobPath(sha256: string): string {
+    return path.join(this.rootDir, "blobs", sha256.slice(0, 2), sha256);
+  }
+
+  private mappingProfilesPath(): string {
+    return path.join(this.rootDir, "mapping-profiles.json");
+  }
+
+  private manifestPath(runId: string): string {
+    return path.join(this.rootDir, "runs", `${runId}.json`);
+  }
+
+  private toRunInfo(manifest: RunManifest): RunInfo {
+    return {
+      id: manifest.id,
+      createdAt: new Date(manifest.createdAt),
+      expiresAt: new Date(manifest.expiresAt),
+      generatorVersion: manifest.generatorVersion,
+      mappingProfile: manifest.mappingProfile,
+      lotMethod: manifest.lotMethod ?? "fifo",
+      longTermDays: manifest.longTermDays ?? DEFAULT_LONG_TERM_DAYS,
+      washSaleScope: manifest.washSaleScope ?? "vintage",
+      twrMethod: manifest.twrMethod ?? "daily",
+      realizedHeaderRow: manifest.realizedHeaderRow,
+      unrealizedHeaderRow: manifest.unrealizedHeaderRow,
+      realizedSheets: manifest.realizedSheets,
+      unrealizedSheets: manifest.unrealizedSheets,
+      duplicateKey: manifest.duplicateKey ?? DEFAULT_DUPLICATE_OPTIONS.key,
+      duplicateHandling: manifest.duplicateHandling ?? DEFAULT_DUPLICATE_OPTIONS.handling,
+    };
+  }
+
+  private toRunRecord(manifest: RunManifest): RunRecord {
+    return {
+      runId: manifest.id,
+      createdAt: manifest.createdAt,
+      expiresAt: manifest.expiresAt,
+      generatorVersion: manifest.generatorVersion,
+      mappingProfile: manifest.mappingProfile,
+      lotMethod: manifest.lotMethod ?? "fifo",
+      longTermDays: manifest.longTermDays ?? DEFAULT_LONG_TERM_DAYS,
+      washSaleScope: manifest.washSaleScope ?? "vintage",
+      twrMethod: manifest.twrMethod ?? "daily",
+      realizedHeaderRow: manifest.realizedHeaderRow,
+      unrealizedHeaderRow: manifest.unrealizedHeaderRow,
+      realizedSheets: manifest.realizedSheets,
+      unrealizedSheets: manifest.unrealizedSheets,
+      duplicateKey: manifest.duplicateKey ?? DEFAULT_DUPLICATE_OPTIONS.key,
+      duplicateHandling: manifest.duplicateHandling ?? DEFAULT_DUPLICATE_OPTIONS.handling,
+      sourceFiles: (Object.keys(manifest.sourceFiles) as StoredFileKind[])
+        .sort()
+        .map((kind) => ({ kind, ...manifest.sourceFiles[kind]!.file })),
+      vintages: Object.values(manifest.vintages)
+        .map(({ vintage }) => vintage)
+        .sort((a, b) => a.vintageName.localeCompare(b.vintageName)),
+      reports: Object.values(manifest.reports ?? {})
+        .map(({ report }) => report)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+}
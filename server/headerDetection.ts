@@ -0,0 +1,111 @@
+import * as XLSX from "xlsx";
+import type { SourceSheet } from "@shared/schema";
+
+// How many leading rows are inspected when looking for the header row
+export const HEADER_SCAN_ROWS = 20;
+
+function normalizeCell(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+/**
+ * Find the header row of a sheet whose data may be preceded by title
+ * banners (report name, account number, date range). Each of the first
+ * rows is scored by how many of its cells match a known header name; the
+ * highest scoring row wins, with ties going to the earliest row.
+ *
+ * Returns a 0-based absolute row index; the first used row when nothing
+ * matches.
+ */
+export function detectHeaderRow(
+  sheet: XLSX.WorkSheet,
+  knownHeaders: string[],
+  maxRows: number = HEADER_SCAN_ROWS
+): number {
+  if (!sheet["!ref"]) return 0;
+
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const known = new Set(knownHeaders.map(normalizeCell));
+  const lastRow = Math.min(range.e.r, range.s.r + maxRows - 1);
+
+  let bestRow = range.s.r;
+  let bestScore = 0;
+  for (let r = range.s.r; r <= lastRow; r++) {
+    let score = 0;
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell && known.has(normalizeCell(cell.v))) {
+        score++;
+      }
+    }
+    if (score > bestScore) {
+      bestRow = r;
+      bestScore = score;
+    }
+  }
+  return bestRow;
+}
+
+/**
+ * Non-empty cell values of a row, as strings
+ */
+export function readHeaderCells(sheet: XLSX.WorkSheet, rowIndex: number): string[] {
+  if (!sheet["!ref"]) return [];
+
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const headers: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = sheet[XLSX.utils.encode_cell({ r: rowIndex, c })];
+    if (cell && String(cell.v ?? "").trim() !== "") {
+      headers.push(String(cell.v).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Convert a sheet to row objects keyed by the cells of the given header row.
+ * With `formatted`, values are the cells' displayed text instead of their
+ * underlying values.
+ */
+export function readRowsFromHeader(
+  sheet: XLSX.WorkSheet,
+  headerRowIndex: number,
+  formatted = false
+): any[] {
+  return XLSX.utils.sheet_to_json(sheet, { range: headerRowIndex, raw: !formatted });
+}
+
+// Where a row read by readRowsFromHeader came from
+export interface RowLocation {
+  sheetName: string;
+  // 1-based sheet row number
+  row: number;
+}
+
+/**
+ * Locate each row of several sheets' concatenated rows, given the sheets in
+ * the order they were read
+ */
+export function locateRows(rows: any[], sheets: SourceSheet[]): RowLocation[] {
+  const locations: RowLocation[] = [];
+  let sheetIndex = 0;
+  let sheetStart = 0;
+
+  rows.forEach((values, index) => {
+    while (
+      index >= sheetStart + sheets[sheetIndex].rowCount &&
+      sheetIndex < sheets.length - 1
+    ) {
+      sheetStart += sheets[sheetIndex].rowCount;
+      sheetIndex++;
+    }
+
+    const sheet = sheets[sheetIndex];
+    // sheet_to_json records each row's 0-based sheet row as __rowNum__
+    const rowIndex = values.__rowNum__ ?? sheet.headerRow + index - sheetStart;
+    locations.push({ sheetName: sheet.sheetName, row: rowIndex + 1 });
+  });
+
+  return locations;
+}
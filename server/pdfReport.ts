@@ -0,0 +1,400 @@
+import { readFileSync } from "fs";
+import PDFDocument from "pdfkit";
+import type { ReportFile } from "@shared/schema";
+import type { VintageData } from "./excelProcessor";
+import { formatExcelSerial, toExcelSerial } from "./excelDates";
+import { summarizeReturns } from "./returns";
+import { summarizeTwr } from "./twr";
+import { summarizeVintageMetrics } from "./vintageMetrics";
+
+const DEFAULT_FIRM_NAME = "Portfolio Vintage Analyzer";
+const DEFAULT_BRAND_COLOR = "#1f4e79";
+
+const PAGE_MARGIN = 50;
+const ROW_HEIGHT = 15;
+const TEXT_COLOR = "#222222";
+const MUTED_COLOR = "#666666";
+const STRIPE_COLOR = "#f2f4f7";
+
+// Firm branding of the PDF reports, configured on the server
+export interface Branding {
+  firmName: string;
+  // Hex color of the cover band and table headers
+  color: string;
+  // PNG or JPEG logo for the cover page
+  logo?: Buffer;
+  // Printed in every page footer, e.g. a confidentiality notice
+  disclaimer?: string;
+}
+
+export function brandingFromEnv(): Branding {
+  let logo: Buffer | undefined;
+  if (process.env.REPORT_LOGO_PATH) {
+    try {
+      logo = readFileSync(process.env.REPORT_LOGO_PATH);
+    } catch (error) {
+      console.error(`Could not read report logo '${process.env.REPORT_LOGO_PATH}':`, error);
+    }
+  }
+  return {
+    firmName: process.env.REPORT_FIRM_NAME || DEFAULT_FIRM_NAME,
+    color: process.env.REPORT_BRAND_COLOR || DEFAULT_BRAND_COLOR,
+    logo,
+    disclaimer: process.env.REPORT_DISCLAIMER || undefined,
+  };
+}
+
+/**
+ * Run report under which a vintage's PDF is stored
+ */
+export function vintagePdfReport(vintageName: string): Omit<ReportFile, "fileSize"> {
+  return { name: `pdf-${vintageName}`, filename: `${vintageName}_Portfolio.pdf` };
+}
+
+interface Column {
+  header: string;
+  // Share of the content width
+  width: number;
+  align?: "left" | "right";
+}
+
+// A mapped source column (undefined when not in the file), its table
+// column and how its values are printed
+type SourceColumn = [string | undefined, Column, (value: unknown) => string];
+
+// First BUY date and the BUY amount on that date, per symbol, as the
+// Initial Purchase sheet's MINIFS/SUMIFS formulas compute them
+interface InitialPurchase {
+  symbol: string;
+  date?: number;
+  amount: number;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function formatMoney(value: number | undefined): string {
+  return value === undefined
+    ? ""
+    : value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Money amount, or the raw value when it is not a number
+function formatAmount(value: unknown): string {
+  const number = toNumber(value);
+  return number === undefined ? String(value ?? "") : formatMoney(number);
+}
+
+function formatNumber(value: unknown): string {
+  const number = toNumber(value);
+  return number === undefined
+    ? String(value ?? "")
+    : number.toLocaleString("en-US", { maximumFractionDigits: 4 });
+}
+
+function formatDate(value: unknown): string {
+  const serial = toExcelSerial(value);
+  return serial === undefined ? String(value ?? "") : formatExcelSerial(serial);
+}
+
+function formatRate(value: number | null | undefined): string {
+  return value === null || value === undefined ? "n/a" : `${(value * 100).toFixed(2)}%`;
+}
+
+function formatMultiple(value: number | null): string {
+  return value === null ? "n/a" : `${value.toFixed(2)}x`;
+}
+
+function collectInitialPurchases(vintage: VintageData): InitialPurchase[] {
+  const { symbol, tradeDate, side, amount } = vintage.mapping.realized;
+  const buy = vintage.mapping.buyValue.trim().toLowerCase();
+  const buys = vintage.realizedRows
+    .filter((row) => String(row[side!] ?? "").trim().toLowerCase() === buy)
+    .map((row) => ({
+      symbol: String(row[symbol!] ?? "").trim(),
+      date: toExcelSerial(row[tradeDate!]),
+      amount: toNumber(row[amount!]) ?? 0,
+    }));
+
+  const symbols = Array.from(
+    new Set(vintage.realizedRows.map((row) => String(row[symbol!] ?? "").trim()).filter(Boolean))
+  ).sort();
+  return symbols.map((name) => {
+    const dates = buys
+      .filter((line) => line.symbol === name && line.date !== undefined)
+      .map((line) => line.date!);
+    const first = dates.length > 0 ? Math.min(...dates) : undefined;
+    return {
+      symbol: name,
+      date: first,
+      amount: buys
+        .filter((line) => line.symbol === name && line.date === first)
+        .reduce((total, line) => total + line.amount, 0),
+    };
+  });
+}
+
+// Text cut with an ellipsis to fit the width at the current font
+function fitText(doc: PDFKit.PDFDocument, text: string, width: number): string {
+  if (doc.widthOfString(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 0 && doc.widthOfString(`${cut}…`) > width) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+function pageBottom(doc: PDFKit.PDFDocument): number {
+  return doc.page.height - PAGE_MARGIN;
+}
+
+function drawHeading(doc: PDFKit.PDFDocument, branding: Branding, title: string) {
+  if (doc.y + 60 > pageBottom(doc)) doc.addPage();
+  doc.moveDown(0.5);
+  doc.font("Helvetica-Bold").fontSize(14).fillColor(branding.color);
+  doc.text(title, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.4);
+}
+
+/**
+ * Draw a table, starting a new page with the header repeated whenever the
+ * next row would run past the bottom margin
+ */
+function drawTable(
+  doc: PDFKit.PDFDocument,
+  branding: Branding,
+  columns: Column[],
+  rows: string[][],
+  emptyMessage: string
+) {
+  const width = contentWidth(doc);
+  const widths = columns.map((column) => column.width * width);
+
+  const drawRow = (cells: string[], header: boolean, stripe: boolean) => {
+    const y = doc.y;
+    if (header) doc.rect(PAGE_MARGIN, y, width, ROW_HEIGHT).fill(branding.color);
+    else if (stripe) doc.rect(PAGE_MARGIN, y, width, ROW_HEIGHT).fill(STRIPE_COLOR);
+
+    doc.font(header ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+    doc.fillColor(header ? "#ffffff" : TEXT_COLOR);
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      const cellWidth = widths[index] - 8;
+      doc.text(fitText(doc, cell, cellWidth), x + 4, y + 4, {
+        width: cellWidth,
+        align: columns[index].align ?? "left",
+        lineBreak: false,
+      });
+      x += widths[index];
+    });
+    doc.x = PAGE_MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  const headers = columns.map((column) => column.header);
+  drawRow(headers, true, false);
+  if (rows.length === 0) {
+    doc.font("Helvetica-Oblique").fontSize(8).fillColor(MUTED_COLOR);
+    doc.text(emptyMessage, PAGE_MARGIN + 4, doc.y + 4);
+    return;
+  }
+
+  rows.forEach((cells, index) => {
+    if (doc.y + ROW_HEIGHT > pageBottom(doc)) {
+      doc.addPage();
+      drawRow(headers, true, false);
+    }
+    drawRow(cells, false, index % 2 === 1);
+  });
+}
+
+function drawCover(doc: PDFKit.PDFDocument, branding: Branding, vintage: VintageData, asOf?: string) {
+  const width = doc.page.width;
+  doc.rect(0, 0, width, 220).fill(branding.color);
+
+  let titleY = 90;
+  if (branding.logo) {
+    try {
+      doc.image(branding.logo, PAGE_MARGIN, 40, { fit: [160, 60] });
+      titleY = 120;
+    } catch (error) {
+      console.error("Could not draw report logo:", error);
+    }
+  }
+
+  doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(28);
+  doc.text(branding.firmName, PAGE_MARGIN, titleY, { width: contentWidth(doc) });
+
+  doc.fillColor(TEXT_COLOR).font("Helvetica-Bold").fontSize(24);
+  doc.text(`${vintage.vintageName} Portfolio Report`, PAGE_MARGIN, 280, { width: contentWidth(doc) });
+
+  doc.font("Helvetica").fontSize(12).fillColor(MUTED_COLOR).moveDown(0.5);
+  doc.text(`Generated ${new Date().toISOString().slice(0, 10)}`);
+  if (asOf) doc.text(`Valuations as of ${asOf}`);
+  doc.text(
+    `${vintage.realizedRows.length} realized rows, ${vintage.unrealizedRows.length} unrealized rows`
+  );
+}
+
+function drawSummary(doc: PDFKit.PDFDocument, branding: Branding, vintage: VintageData) {
+  const metrics = summarizeVintageMetrics(vintage.capital);
+  const returns = vintage.cashFlows && summarizeReturns(vintage.cashFlows);
+  const twr = vintage.twr && summarizeTwr(vintage.twr);
+  const realizedGain = vintage.lots
+    ?.filter((line) => line.status === "closed")
+    .reduce((total, line) => total + (line.gain ?? 0), 0);
+
+  drawHeading(doc, branding, "Summary");
+  drawTable(
+    doc,
+    branding,
+    [
+      { header: "Metric", width: 0.6 },
+      { header: "Value", width: 0.4, align: "right" },
+    ],
+    [
+      ["Paid-In Capital", formatMoney(metrics.paidIn)],
+      ["Distributions", formatMoney(metrics.distributions)],
+      ["Residual Value", formatMoney(metrics.residualValue)],
+      ["Total Value", formatMoney(metrics.distributions + metrics.residualValue)],
+      [
+        "Realized Gain/Loss (closed lots)",
+        realizedGain === undefined ? "n/a" : formatMoney(realizedGain),
+      ],
+      ["DPI", formatMultiple(metrics.dpi)],
+      ["RVPI", formatMultiple(metrics.rvpi)],
+      ["TVPI", formatMultiple(metrics.tvpi)],
+      ["MOIC", formatMultiple(metrics.moic)],
+      ["IRR (XIRR)", formatRate(returns?.xirr)],
+      ["Time-Weighted Return (cumulative)", formatRate(twr?.cumulative)],
+    ],
+    ""
+  );
+}
+
+// Source rows as a table of the mapped columns present in the file
+function drawSourceRows(
+  doc: PDFKit.PDFDocument,
+  branding: Branding,
+  title: string,
+  columns: SourceColumn[],
+  rows: any[],
+  emptyMessage: string
+) {
+  const present = columns.filter(([header]) => header !== undefined);
+  const share = present.reduce((total, [, column]) => total + column.width, 0);
+
+  drawHeading(doc, branding, title);
+  drawTable(
+    doc,
+    branding,
+    present.map(([, column]) => ({ ...column, width: column.width / share })),
+    rows.map((row) => present.map(([header, , format]) => format(row[header!] ?? ""))),
+    emptyMessage
+  );
+}
+
+/**
+ * Render a vintage as a paginated PDF: a branded cover page, the summary
+ * metrics, the Initial Purchase table, then the realized trades and
+ * unrealized holdings, with the firm and page number in every footer.
+ * Uses only pdfkit's built-in fonts, so no browser or external service.
+ */
+export function generateVintagePdf(vintage: VintageData, branding: Branding): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: `${vintage.vintageName} Portfolio Report`, Author: branding.firmName },
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const asOf = vintage.cashFlows && formatExcelSerial(vintage.cashFlows.asOf);
+  drawCover(doc, branding, vintage, asOf);
+
+  doc.addPage();
+  drawSummary(doc, branding, vintage);
+
+  drawHeading(doc, branding, "Initial Purchase");
+  drawTable(
+    doc,
+    branding,
+    [
+      { header: "Symbol", width: 0.4 },
+      { header: "First Purchase Date", width: 0.3 },
+      { header: "Initial Amount", width: 0.3, align: "right" },
+    ],
+    collectInitialPurchases(vintage).map((line) => [
+      line.symbol,
+      line.date === undefined ? "" : formatExcelSerial(line.date),
+      formatMoney(line.amount),
+    ]),
+    "No realized symbols"
+  );
+
+  const { realized, unrealized } = vintage.mapping;
+  const realizedColumns: SourceColumn[] = [
+    [realized.symbol, { header: "Symbol", width: 0.18 }, String],
+    [realized.tradeDate, { header: "Trade Date", width: 0.16 }, formatDate],
+    [realized.side, { header: "Side", width: 0.14 }, String],
+    [realized.quantity, { header: "Quantity", width: 0.16, align: "right" }, formatNumber],
+    [realized.price, { header: "Price", width: 0.16, align: "right" }, formatNumber],
+    [realized.amount, { header: "Amount", width: 0.2, align: "right" }, formatAmount],
+  ];
+  drawSourceRows(
+    doc,
+    branding,
+    "Realized Trades",
+    realizedColumns,
+    vintage.realizedRows,
+    "No realized trades"
+  );
+
+  const unrealizedColumns: SourceColumn[] = [
+    [unrealized.symbol, { header: "Symbol", width: 0.2 }, String],
+    [unrealized.date, { header: "Date", width: 0.18 }, formatDate],
+    [unrealized.quantity, { header: "Quantity", width: 0.18, align: "right" }, formatNumber],
+    [unrealized.price, { header: "Mark Price", width: 0.2, align: "right" }, formatNumber],
+    [unrealized.marketValue, { header: "Market Value", width: 0.24, align: "right" }, formatAmount],
+  ];
+  drawSourceRows(
+    doc,
+    branding,
+    "Unrealized Holdings",
+    unrealizedColumns,
+    vintage.unrealizedRows,
+    "No unrealized holdings"
+  );
+
+  // Footers go on last, once the page count is known
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED_COLOR);
+    const footer = [branding.firmName, vintage.vintageName, branding.disclaimer]
+      .filter(Boolean)
+      .join(" · ");
+    doc.text(fitText(doc, footer, contentWidth(doc) - 80), PAGE_MARGIN, doc.page.height - 35, {
+      lineBreak: false,
+    });
+    doc.text(`Page ${i - start + 1} of ${count}`, PAGE_MARGIN, doc.page.height - 35, {
+      width: contentWidth(doc),
+      align: "right",
+      lineBreak: false,
+    });
+    doc.page.margins.bottom = bottom;
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAPPING_PROFILE, resolveMapping } from "./columnMapping";
+import { reconcileVintage, summarizeReconciliation } from "./reconciliation";
+
+const REALIZED_HEADERS = ["Symbol", "TradeDate", "Buy/Sell", "Amount", "Vintage", "Quantity"];
+const UNREALIZED_HEADERS = ["Symbol", "Vintage", "Date", "Net Quantity"];
+const MAPPING = resolveMapping(DEFAULT_MAPPING_PROFILE, REALIZED_HEADERS, UNREALIZED_HEADERS);
+
+const trade = (symbol: string, side: string, quantity: number) => ({
+  Symbol: symbol,
+  "Buy/Sell": side,
+  Quantity: quantity,
+});
+
+describe("reconcileVintage", () => {
+  it("compares net realized shares with the latest unrealized position", () => {
+    const realized = [
+      // Sold quantities count as negative whether signed or not
+      trade("AAPL", "BUY", 10),
+      trade("AAPL", "SELL", -4),
+      trade("MSFT", "BUY", 5),
+      trade("MSFT", "SELL", 2),
+      trade("MSFT", "DIVIDEND", 0),
+      trade("NVDA", "BUY", 3),
+      trade("NVDA", "SELL", 3),
+      trade("TSLA", "BUY", 1),
+    ];
+    const unrealized = [
+      { Symbol: "AAPL", Date: 45290, "Net Quantity": 10 },
+      { Symbol: "AAPL", Date: 45300, "Net Quantity": 6 },
+      { Symbol: "MSFT", Date: 45300, "Net Quantity": 4 },
+      { Symbol: "AMZN", Date: 45300, "Net Quantity": 2 },
+    ];
+
+    const lines = reconcileVintage(realized, unrealized, MAPPING)!;
+    expect(lines.map(({ symbol, difference, status }) => ({ symbol, difference, status }))).toEqual([
+      { symbol: "AAPL", difference: 0, status: "match" },
+      { symbol: "AMZN", difference: -2, status: "unrealized_only" },
+      { symbol: "MSFT", difference: -1, status: "break" },
+      { symbol: "NVDA", difference: 0, status: "closed" },
+      { symbol: "TSLA", difference: 1, status: "realized_only" },
+    ]);
+    expect(summarizeReconciliation(lines)).toMatchObject({
+      matchCount: 2,
+      breakCount: 1,
+      orphanCount: 2,
+    });
+  });
+
+  it("is undefined without quantity columns", () => {
+    const mapping = resolveMapping(DEFAULT_MAPPING_PROFILE, REALIZED_HEADERS, ["Symbol", "Vintage"]);
+    expect(reconcileVintage([], [], mapping)).toBeUndefined();
+  });
+});
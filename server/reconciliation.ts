@@ -0,0 +1,164 @@
+import * as XLSX from "xlsx";
+import type {
+  ReconciliationLine,
+  ReconciliationStatus,
+  ReconciliationSummary,
+} from "@shared/schema";
+import type { ResolvedMapping } from "./columnMapping";
+import { toExcelSerial } from "./excelDates";
+
+// Quantities closer than this are treated as equal
+const QUANTITY_TOLERANCE = 1e-6;
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  match: "Match",
+  break: "Break",
+  closed: "Closed",
+  realized_only: "Realized only",
+  unrealized_only: "Unrealized only",
+};
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Net shares per symbol implied by realized trades: BUY quantities add and
+ * SELL quantities subtract, whether the source signs them or not
+ */
+function realizedNetQuantities(rows: any[], mapping: ResolvedMapping): Map<string, number> {
+  const { symbol, side, quantity } = mapping.realized;
+  const buy = mapping.buyValue.trim().toLowerCase();
+  const sell = mapping.sellValue.trim().toLowerCase();
+  const net = new Map<string, number>();
+
+  for (const row of rows) {
+    const name = String(row[symbol!] ?? "").trim();
+    const shares = toNumber(row[quantity!]);
+    const direction = String(row[side!] ?? "").trim().toLowerCase();
+    if (!name || shares === undefined) continue;
+
+    const sign = direction === buy ? 1 : direction === sell ? -1 : 0;
+    if (sign === 0) continue;
+    net.set(name, (net.get(name) ?? 0) + sign * Math.abs(shares));
+  }
+  return net;
+}
+
+/**
+ * Sum a value per symbol over the unrealized rows, with the date it is as
+ * of. When the file holds several dates, only each symbol's latest date
+ * counts; rows without a value are skipped.
+ */
+export function latestUnrealizedValues(
+  rows: any[],
+  mapping: ResolvedMapping,
+  read: (row: any) => number | undefined
+): Map<string, { date: number; value: number }> {
+  const { symbol, date } = mapping.unrealized;
+  const latest = new Map<string, { date: number; value: number }>();
+
+  for (const row of rows) {
+    const name = String(row[symbol!] ?? "").trim();
+    const value = read(row);
+    if (!name || value === undefined) continue;
+
+    const asOf = (date ? toExcelSerial(row[date]) : undefined) ?? 0;
+    const current = latest.get(name);
+    if (!current || asOf > current.date) {
+      latest.set(name, { date: asOf, value });
+    } else if (asOf === current.date) {
+      current.value += value;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Compare each symbol's net realized shares with its unrealized position.
+ * Returns undefined when either file lacks a symbol or quantity column.
+ */
+export function reconcileVintage(
+  realizedRows: any[],
+  unrealizedRows: any[],
+  mapping: ResolvedMapping
+): ReconciliationLine[] | undefined {
+  if (
+    !mapping.realized.symbol ||
+    !mapping.realized.quantity ||
+    !mapping.unrealized.symbol ||
+    !mapping.unrealized.quantity
+  ) {
+    return undefined;
+  }
+
+  const realized = realizedNetQuantities(realizedRows, mapping);
+  const unrealized = new Map<string, number>();
+  latestUnrealizedValues(unrealizedRows, mapping, (row) =>
+    toNumber(row[mapping.unrealized.quantity!])
+  ).forEach(({ value }, symbol) => unrealized.set(symbol, value));
+  const symbols = Array.from(
+    new Set([...Array.from(realized.keys()), ...Array.from(unrealized.keys())])
+  ).sort();
+
+  return symbols.map((symbol) => {
+    const realizedQuantity = realized.get(symbol);
+    const unrealizedQuantity = unrealized.get(symbol);
+    const difference = (realizedQuantity ?? 0) - (unrealizedQuantity ?? 0);
+
+    let status: ReconciliationStatus;
+    if (unrealizedQuantity === undefined) {
+      status = Math.abs(realizedQuantity!) < QUANTITY_TOLERANCE ? "closed" : "realized_only";
+    } else if (realizedQuantity === undefined) {
+      status = "unrealized_only";
+    } else {
+      status = Math.abs(difference) < QUANTITY_TOLERANCE ? "match" : "break";
+    }
+
+    return {
+      symbol,
+      realizedQuantity: realizedQuantity ?? null,
+      unrealizedQuantity: unrealizedQuantity ?? null,
+      difference,
+      status,
+    };
+  });
+}
+
+export function summarizeReconciliation(lines: ReconciliationLine[]): ReconciliationSummary {
+  const isOrphan = (line: ReconciliationLine) =>
+    line.status === "realized_only" || line.status === "unrealized_only";
+
+  return {
+    matchCount: lines.filter((line) => line.status === "match" || line.status === "closed").length,
+    breakCount: lines.filter((line) => line.status === "break").length,
+    orphanCount: lines.filter(isOrphan).length,
+    breaks: lines.filter((line) => line.status === "break" || isOrphan(line)),
+  };
+}
+
+/**
+ * Build the Reconciliation sheet: one line per symbol found in either file
+ */
+export function buildReconciliationSheet(lines: ReconciliationLine[] | undefined): XLSX.WorkSheet {
+  const header = ["Symbol", "Realized Net Quantity", "Unrealized Quantity", "Difference", "Status"];
+  const data: unknown[][] = [header];
+
+  if (!lines) {
+    data.push(["Quantity or symbol columns not found; reconciliation skipped"]);
+  } else {
+    for (const line of lines) {
+      data.push([
+        line.symbol,
+        line.realizedQuantity ?? "",
+        line.unrealizedQuantity ?? "",
+        line.difference,
+        STATUS_LABELS[line.status],
+      ]);
+    }
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(data);
+  sheet["!cols"] = [{ wch: 15 }, { wch: 22 }, { wch: 20 }, { wch: 15 }, { wch: 18 }];
+  return sheet;
+}
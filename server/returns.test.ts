@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAPPING_PROFILE, resolveMapping } from "./columnMapping";
+import { parseDateText } from "./excelDates";
+import { collectCashFlows, xirr } from "./returns";
+
+const day = (text: string) => parseDateText(text)!;
+
+const MAPPING = resolveMapping(
+  DEFAULT_MAPPING_PROFILE,
+  ["Symbol", "TradeDate", "Buy/Sell", "Amount", "Vintage"],
+  ["Symbol", "Vintage", "Date", "Net Quantity", "Mark Price", "Position Value"]
+);
+
+describe("xirr", () => {
+  it("annualizes a one-year return", () => {
+    const rate = xirr([
+      { date: day("2023-01-01"), amount: -1000 },
+      { date: day("2024-01-01"), amount: 1100 },
+    ]);
+    expect(rate).toBeCloseTo(0.1, 10);
+  });
+
+  it("matches Excel's XIRR on irregular flows", () => {
+    const rate = xirr([
+      { date: day("2008-01-01"), amount: -10000 },
+      { date: day("2008-03-01"), amount: 2750 },
+      { date: day("2008-10-30"), amount: 4250 },
+      { date: day("2009-02-15"), amount: 3250 },
+      { date: day("2009-04-01"), amount: 2750 },
+    ]);
+    expect(rate).toBeCloseTo(0.373362535, 8);
+  });
+
+  it("does not depend on the order of the flows", () => {
+    const rate = xirr([
+      { date: day("2024-01-01"), amount: 1100 },
+      { date: day("2023-01-01"), amount: -1000 },
+    ]);
+    expect(rate).toBeCloseTo(0.1, 10);
+  });
+
+  it("finds large and negative rates", () => {
+    const doubled = xirr([
+      { date: 0, amount: -100 },
+      { date: 73, amount: 200 },
+    ]);
+    expect(doubled).toBeCloseTo(Math.pow(2, 5) - 1, 6);
+
+    const halved = xirr([
+      { date: 0, amount: -100 },
+      { date: 365, amount: 50 },
+    ]);
+    expect(halved).toBeCloseTo(-0.5, 10);
+  });
+
+  it("is undefined without both an outflow and an inflow", () => {
+    expect(xirr([{ date: 0, amount: -100 }, { date: 30, amount: -50 }])).toBeUndefined();
+    expect(xirr([{ date: 0, amount: 100 }])).toBeUndefined();
+    expect(xirr([])).toBeUndefined();
+  });
+});
+
+describe("collectCashFlows", () => {
+  it("collects trades, dividends and closing market values per symbol", () => {
+    const realized = [
+      { Symbol: "MSFT", TradeDate: day("2024-01-10"), "Buy/Sell": "BUY", Amount: 2000 },
+      { Symbol: "AAPL", TradeDate: day("2024-01-05"), "Buy/Sell": "BUY", Amount: -1000 },
+      { Symbol: "AAPL", TradeDate: day("2024-02-01"), "Buy/Sell": "DIVIDEND", Amount: 5 },
+      { Symbol: "AAPL", TradeDate: day("2024-03-01"), "Buy/Sell": "SELL", Amount: -400 },
+      { Symbol: "AAPL", TradeDate: day("2024-03-02"), "Buy/Sell": "TRANSFER", Amount: 10 },
+    ];
+    const unrealized = [
+      { Symbol: "AAPL", Date: day("2024-06-30"), "Position Value": 700 },
+      { Symbol: "MSFT", Date: day("2024-06-28"), "Net Quantity": 5, "Mark Price": 410 },
+    ];
+
+    expect(collectCashFlows(realized, unrealized, MAPPING)).toEqual({
+      asOf: day("2024-06-30"),
+      flows: [
+        { symbol: "AAPL", date: day("2024-01-05"), amount: -1000, type: "Buy" },
+        { symbol: "AAPL", date: day("2024-02-01"), amount: 5, type: "Dividend" },
+        { symbol: "AAPL", date: day("2024-03-01"), amount: 400, type: "Sell" },
+        { symbol: "AAPL", date: day("2024-06-30"), amount: 700, type: "Market value" },
+        { symbol: "MSFT", date: day("2024-01-10"), amount: -2000, type: "Buy" },
+        { symbol: "MSFT", date: day("2024-06-30"), amount: 2050, type: "Market value" },
+      ],
+    });
+  });
+
+  it("values positions on the latest trade date without unrealized dates", () => {
+    const realized = [{ Symbol: "AAPL", TradeDate: day("2024-01-05"), "Buy/Sell": "BUY", Amount: -1000 }];
+    const unrealized = [{ Symbol: "AAPL", "Position Value": 1200 }];
+
+    expect(collectCashFlows(realized, unrealized, MAPPING)?.asOf).toBe(day("2024-01-05"));
+  });
+
+  it("is undefined without any dated flows", () => {
+    expect(collectCashFlows([], [], MAPPING)).toBeUndefined();
+  });
+});
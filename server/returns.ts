@@ -0,0 +1,246 @@
+import * as XLSX from "xlsx";
+import type { VintageReturns } from "@shared/schema";
+import type { ResolvedMapping } from "./columnMapping";
+import { formatExcelSerial, toExcelSerial } from "./excelDates";
+import { latestUnrealizedValues } from "./reconciliation";
+
+const DAYS_PER_YEAR = 365;
+const MAX_ITERATIONS = 100;
+const RATE_TOLERANCE = 1e-10;
+
+// #NUM! in SheetJS error cells, cached where Excel's XIRR finds no rate
+const NUM_ERROR = 0x24;
+
+export type CashFlowType = "Buy" | "Sell" | "Dividend" | "Market value";
+
+// A dated cash flow from the investor's side: BUYs pay out, SELLs,
+// dividends and the closing market value come back
+export interface CashFlow {
+  symbol: string;
+  date: number;
+  amount: number;
+  type: CashFlowType;
+}
+
+export interface VintageCashFlows {
+  // Date of the terminal market value flows
+  asOf: number;
+  // Grouped by symbol, each symbol's flows in date order
+  flows: CashFlow[];
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Collect a vintage's cash flows: each realized BUY, SELL or dividend
+ * amount on its trade date, then each symbol's unrealized market value (or
+ * quantity times price) on the as-of date, the latest unrealized date.
+ * Without unrealized dates the latest trade date is used. Undefined when
+ * there are no flows.
+ */
+export function collectCashFlows(
+  realizedRows: any[],
+  unrealizedRows: any[],
+  mapping: ResolvedMapping
+): VintageCashFlows | undefined {
+  const { symbol, tradeDate, side, amount } = mapping.realized;
+  const buy = mapping.buyValue.trim().toLowerCase();
+  const sell = mapping.sellValue.trim().toLowerCase();
+  const dividend = mapping.dividendValue.trim().toLowerCase();
+  const flows: CashFlow[] = [];
+
+  for (const row of realizedRows) {
+    const name = String(row[symbol!] ?? "").trim();
+    const date = toExcelSerial(row[tradeDate!]);
+    const value = toNumber(row[amount!]);
+    const direction = String(row[side!] ?? "").trim().toLowerCase();
+    if (!name || date === undefined || value === undefined) continue;
+
+    const day = Math.floor(date);
+    if (direction === buy) {
+      flows.push({ symbol: name, date: day, amount: -Math.abs(value), type: "Buy" });
+    } else if (direction === sell) {
+      flows.push({ symbol: name, date: day, amount: Math.abs(value), type: "Sell" });
+    } else if (direction === dividend) {
+      flows.push({ symbol: name, date: day, amount: Math.abs(value), type: "Dividend" });
+    }
+  }
+
+  const { quantity, price, marketValue } = mapping.unrealized;
+  const positions = latestUnrealizedValues(unrealizedRows, mapping, (row) => {
+    const value = marketValue ? toNumber(row[marketValue]) : undefined;
+    if (value !== undefined) return value;
+    const shares = quantity ? toNumber(row[quantity]) : undefined;
+    const mark = price ? toNumber(row[price]) : undefined;
+    return shares !== undefined && mark !== undefined ? shares * mark : undefined;
+  });
+
+  const positionDates = Array.from(positions.values())
+    .map(({ date }) => date)
+    .filter((date) => date > 0);
+  const dates = positionDates.length > 0 ? positionDates : flows.map(({ date }) => date);
+  if (dates.length === 0) return undefined;
+
+  const asOf = Math.floor(Math.max(...dates));
+  positions.forEach(({ value }, name) => {
+    if (value !== 0) flows.push({ symbol: name, date: asOf, amount: value, type: "Market value" });
+  });
+  if (flows.length === 0) return undefined;
+
+  flows.sort((a, b) => a.symbol.localeCompare(b.symbol) || a.date - b.date);
+  return { asOf, flows };
+}
+
+/**
+ * Annualized rate at which the flows' net present value is zero, as Excel's
+ * XIRR computes it: Newton's method, falling back to bisection. Undefined
+ * without both a negative and a positive flow, or when no rate is found.
+ */
+export function xirr(flows: { date: number; amount: number }[]): number | undefined {
+  if (!flows.some((flow) => flow.amount < 0) || !flows.some((flow) => flow.amount > 0)) {
+    return undefined;
+  }
+
+  const start = Math.min(...flows.map((flow) => flow.date));
+  const years = flows.map((flow) => (flow.date - start) / DAYS_PER_YEAR);
+  const npv = (rate: number) =>
+    flows.reduce((total, flow, i) => total + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const slope = (rate: number) =>
+    flows.reduce(
+      (total, flow, i) => total - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1),
+      0
+    );
+
+  let rate = 0.1;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const step = npv(rate) / slope(rate);
+    if (!Number.isFinite(step)) break;
+    const next = rate - step;
+    if (next <= -1) break;
+    if (Math.abs(next - rate) < RATE_TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Newton diverged; bisect between a near-total loss and a 1,000,000% gain
+  let low = -0.999999;
+  let high = 10000;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) return undefined;
+  for (let i = 0; i < MAX_ITERATIONS * 2; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) low = mid;
+    else high = mid;
+    if (high - low < RATE_TOLERANCE) break;
+  }
+  return (low + high) / 2;
+}
+
+function symbolsOf(flows: CashFlow[]): string[] {
+  return Array.from(new Set(flows.map((flow) => flow.symbol)));
+}
+
+export function summarizeReturns(cashFlows: VintageCashFlows): VintageReturns {
+  const { asOf, flows } = cashFlows;
+  return {
+    asOf: formatExcelSerial(asOf),
+    xirr: xirr(flows) ?? null,
+    symbols: symbolsOf(flows).map((symbol) => ({
+      symbol,
+      xirr: xirr(flows.filter((flow) => flow.symbol === symbol)) ?? null,
+    })),
+  };
+}
+
+// XIRR formula cell, caching the rate computed here or #NUM! without one
+function xirrCell(formula: string, rate: number | undefined): XLSX.CellObject {
+  return rate === undefined
+    ? { f: formula, t: "e", v: NUM_ERROR }
+    : { f: formula, t: "n", v: rate, z: "0.00%" };
+}
+
+/**
+ * Build the Returns sheet: XIRR per symbol and for the vintage on top, then
+ * the cash flows they are computed from. Each symbol's XIRR covers its own
+ * block of flows; the vintage XIRR covers the flows summed per date with
+ * SUMIFS, since Excel wants the earliest flow first.
+ */
+export function buildReturnsSheet(cashFlows: VintageCashFlows | undefined): XLSX.WorkSheet {
+  if (!cashFlows) {
+    const sheet = XLSX.utils.aoa_to_sheet([["No dated cash flows; returns not computed"]]);
+    sheet["!cols"] = [{ wch: 45 }];
+    return sheet;
+  }
+
+  const { asOf, flows } = cashFlows;
+  const symbols = symbolsOf(flows);
+  const dates = Array.from(new Set(flows.map((flow) => flow.date))).sort((a, b) => a - b);
+
+  const sheet: XLSX.WorkSheet = {};
+  sheet["A1"] = { v: "As of", t: "s" };
+  sheet["B1"] = { v: asOf, t: "n", z: "yyyy-mm-dd" };
+
+  // Summary table from row 3, then the flow tables two rows below it
+  const summaryHeader = 3;
+  const vintageRow = summaryHeader + symbols.length + 1;
+  const flowHeader = vintageRow + 2;
+  const firstFlow = flowHeader + 1;
+  const lastFlow = flowHeader + flows.length;
+  const lastDate = flowHeader + dates.length;
+
+  sheet[`A${summaryHeader}`] = { v: "Symbol", t: "s" };
+  sheet[`B${summaryHeader}`] = { v: "XIRR", t: "s" };
+
+  ["Symbol", "Date", "Cash Flow", "Type"].forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: flowHeader - 1, c })] = { v: header, t: "s" };
+  });
+  sheet[`F${flowHeader}`] = { v: "Date", t: "s" };
+  sheet[`G${flowHeader}`] = { v: "Vintage Cash Flow", t: "s" };
+
+  flows.forEach((flow, index) => {
+    const r = firstFlow + index;
+    sheet[`A${r}`] = { v: flow.symbol, t: "s" };
+    sheet[`B${r}`] = { v: flow.date, t: "n", z: "yyyy-mm-dd" };
+    sheet[`C${r}`] = { v: flow.amount, t: "n", z: "0.00" };
+    sheet[`D${r}`] = { v: flow.type, t: "s" };
+  });
+
+  let start = firstFlow;
+  symbols.forEach((symbol, index) => {
+    const symbolFlows = flows.filter((flow) => flow.symbol === symbol);
+    const end = start + symbolFlows.length - 1;
+    const r = summaryHeader + 1 + index;
+    sheet[`A${r}`] = { v: symbol, t: "s" };
+    sheet[`B${r}`] = xirrCell(`XIRR(C${start}:C${end},B${start}:B${end})`, xirr(symbolFlows));
+    start = end + 1;
+  });
+
+  dates.forEach((date, index) => {
+    const r = firstFlow + index;
+    sheet[`F${r}`] = { v: date, t: "n", z: "yyyy-mm-dd" };
+    sheet[`G${r}`] = {
+      f: `SUMIFS($C$${firstFlow}:$C$${lastFlow},$B$${firstFlow}:$B$${lastFlow},F${r})`,
+      v: flows.filter((flow) => flow.date === date).reduce((total, flow) => total + flow.amount, 0),
+      t: "n",
+      z: "0.00",
+    };
+  });
+
+  sheet[`A${vintageRow}`] = { v: "Vintage", t: "s" };
+  sheet[`B${vintageRow}`] = xirrCell(
+    `XIRR(G${firstFlow}:G${lastDate},F${firstFlow}:F${lastDate})`,
+    xirr(flows)
+  );
+
+  sheet["!ref"] = `A1:G${lastFlow}`;
+  sheet["!cols"] = [
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 4 },
+    { wch: 12 },
+    { wch: 18 },
+  ];
+  return sheet;
+}
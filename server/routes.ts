@@ -2,7 +2,34 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import { storage } from "./storage";
-import { ExcelProcessor } from "./excelProcessor";
+import { ExcelProcessor, GENERATOR_VERSION, type ProcessOptions } from "./excelProcessor";
+import { DEFAULT_MAPPING_PROFILE, DEFAULT_PROFILE_NAME } from "./columnMapping";
+import {
+  VALIDATION_REPORT_FILENAME,
+  VALIDATION_REPORT_NAME,
+  generateValidationReport,
+  summarizeValidation,
+} from "./validation";
+import { DEFAULT_DUPLICATE_OPTIONS } from "./duplicates";
+import { DEFAULT_LONG_TERM_DAYS } from "./capitalGains";
+import { ALL_VINTAGES_REPORT_FILENAME, ALL_VINTAGES_REPORT_NAME } from "./allVintages";
+import { buildArchiveManifest, writeRunArchive, type ArchiveFile } from "./archive";
+import { brandingFromEnv, generateVintagePdf, vintagePdfReport } from "./pdfReport";
+import { fromZodError } from "zod-validation-error";
+import {
+  mappingProfileSchema,
+  processRequestSchema,
+  sourceFileKindSchema,
+  type DuplicateOptions,
+  type MappingProfile,
+  type ProcessFilesResponse,
+  type LotMethod,
+  type ReportFile,
+  type RunRecord,
+  type TwrMethod,
+  type UploadedFile,
+  type WashSaleScope,
+} from "@shared/schema";
 
 // Configure multer for file uploads (in-memory storage)
 const upload = multer({
@@ -14,78 +41,335 @@ const upload = multer({
     const allowedTypes = [
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
       "application/vnd.ms-excel",
+      "text/csv",
+      "application/csv",
+      "text/tab-separated-values",
     ];
-    
-    if (allowedTypes.includes(file.mimetype) || 
-        file.originalname.endsWith(".xlsx") || 
-        file.originalname.endsWith(".xls")) {
+    const allowedExtensions = [".xlsx", ".xls", ".csv", ".tsv"];
+    const filename = file.originalname.toLowerCase();
+
+    if (allowedTypes.includes(file.mimetype) ||
+        allowedExtensions.some((ext) => filename.endsWith(ext))) {
       cb(null, true);
     } else {
-      cb(new Error("Only Excel files are allowed"));
+      cb(new Error("Only Excel, CSV or TSV files are allowed"));
     }
   },
 });
 
+// Firm branding printed on the vintage PDF reports
+const branding = brandingFromEnv();
+
+interface SourceUpload {
+  file: UploadedFile;
+  buffer: Buffer;
+}
+
+// Processing options with the mapping profile, duplicate handling and lot
+// method settled
+type ResolvedProcessOptions = ProcessOptions & {
+  profile: MappingProfile;
+  duplicates: DuplicateOptions;
+  lotMethod: LotMethod;
+  longTermDays: number;
+  washSaleScope: WashSaleScope;
+  twrMethod: TwrMethod;
+};
+
+function toSourceUpload(file: Express.Multer.File): SourceUpload {
+  return {
+    file: { filename: file.originalname, size: file.size, mimetype: file.mimetype },
+    buffer: file.buffer,
+  };
+}
+
+/**
+ * Look up a mapping profile by name, falling back to the built-in default
+ */
+async function findMappingProfile(name?: string): Promise<MappingProfile | undefined> {
+  if (!name || name === DEFAULT_PROFILE_NAME) {
+    return DEFAULT_MAPPING_PROFILE;
+  }
+  return storage.getMappingProfile(name);
+}
+
+/**
+ * Validate processing options from a request body and resolve the mapping
+ * profile they name. Returns an error message for a 400 response instead
+ * of options when the body is invalid.
+ */
+async function parseProcessOptions(
+  body: unknown,
+  fallback: Partial<
+    Pick<
+      RunRecord,
+      | "mappingProfile"
+      | "realizedHeaderRow"
+      | "unrealizedHeaderRow"
+      | "realizedSheets"
+      | "unrealizedSheets"
+      | "duplicateKey"
+      | "duplicateHandling"
+      | "lotMethod"
+      | "longTermDays"
+      | "washSaleScope"
+      | "twrMethod"
+    >
+  > = {}
+): Promise<{ options: ResolvedProcessOptions; error?: undefined } | { error: string }> {
+  const parsed = processRequestSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return { error: fromZodError(parsed.error).message };
+  }
+
+  const request = parsed.data;
+  const profileName = request.mappingProfile || fallback.mappingProfile;
+  const profile = await findMappingProfile(profileName);
+  if (!profile) {
+    return { error: `Mapping profile '${profileName}' not found` };
+  }
+
+  return {
+    options: {
+      profile,
+      headerRows: {
+        realized: request.realizedHeaderRow ?? fallback.realizedHeaderRow,
+        unrealized: request.unrealizedHeaderRow ?? fallback.unrealizedHeaderRow,
+      },
+      sheets: {
+        realized: request.realizedSheets ?? fallback.realizedSheets,
+        unrealized: request.unrealizedSheets ?? fallback.unrealizedSheets,
+      },
+      duplicates: {
+        key: request.duplicateKey ?? fallback.duplicateKey ?? DEFAULT_DUPLICATE_OPTIONS.key,
+        handling:
+          request.duplicateHandling ??
+          fallback.duplicateHandling ??
+          DEFAULT_DUPLICATE_OPTIONS.handling,
+      },
+      lotMethod: request.lotMethod ?? fallback.lotMethod ?? "fifo",
+      longTermDays: request.longTermDays ?? fallback.longTermDays ?? DEFAULT_LONG_TERM_DAYS,
+      washSaleScope: request.washSaleScope ?? fallback.washSaleScope ?? "vintage",
+      twrMethod: request.twrMethod ?? fallback.twrMethod ?? "daily",
+    },
+  };
+}
+
+/**
+ * Process a realized/unrealized pair, with an optional price history, and
+ * store the source files and generated workbooks under a new run
+ */
+async function processIntoRun(
+  realized: SourceUpload,
+  unrealized: SourceUpload,
+  options: ResolvedProcessOptions,
+  prices?: SourceUpload
+): Promise<ProcessFilesResponse> {
+  // Process the files and generate vintage Excel files
+  const { vintageData, results, buffers, sourceSheets, validation, duplicates } =
+    await ExcelProcessor.processAndGenerateFiles(realized.buffer, unrealized.buffer, {
+      ...options,
+      priceHistory: prices?.buffer,
+    });
+
+  // Store the generated files under a run of their own so concurrent
+  // uploads never overwrite each other's workbooks
+  const run = await storage.createRun({
+    generatorVersion: GENERATOR_VERSION,
+    mappingProfile: options.profile.name,
+    realizedHeaderRow: options.headerRows?.realized,
+    unrealizedHeaderRow: options.headerRows?.unrealized,
+    realizedSheets: options.sheets?.realized,
+    unrealizedSheets: options.sheets?.unrealized,
+    duplicateKey: options.duplicates.key,
+    duplicateHandling: options.duplicates.handling,
+    lotMethod: options.lotMethod,
+    longTermDays: options.longTermDays,
+    washSaleScope: options.washSaleScope,
+    twrMethod: options.twrMethod,
+  });
+  await storage.storeSourceFile(run.id, "realized", realized.file, realized.buffer);
+  await storage.storeSourceFile(run.id, "unrealized", unrealized.file, unrealized.buffer);
+  if (prices) {
+    await storage.storeSourceFile(run.id, "prices", prices.file, prices.buffer);
+  }
+  for (let i = 0; i < results.length; i++) {
+    await storage.storeVintageFile(run.id, results[i], buffers[i]);
+  }
+
+  // One workbook comparing every vintage, downloaded alongside them
+  const reports: ReportFile[] = [];
+  const overview = ExcelProcessor.generateAllVintagesExcel(vintageData);
+  const allVintages = {
+    name: ALL_VINTAGES_REPORT_NAME,
+    filename: ALL_VINTAGES_REPORT_FILENAME,
+    fileSize: overview.length,
+  };
+  await storage.storeReportFile(run.id, allVintages, overview);
+  reports.push(allVintages);
+
+  // A PDF per vintage for readers who do not open spreadsheets
+  for (const vintage of vintageData) {
+    const buffer = await generateVintagePdf(vintage, branding);
+    const report = { ...vintagePdfReport(vintage.vintageName), fileSize: buffer.length };
+    await storage.storeReportFile(run.id, report, buffer);
+    reports.push(report);
+  }
+
+  // Keep a workbook of the offending rows whenever validation found any
+  if (validation.issues.length > 0) {
+    const buffer = await generateValidationReport(validation);
+    const report = {
+      name: VALIDATION_REPORT_NAME,
+      filename: VALIDATION_REPORT_FILENAME,
+      fileSize: buffer.length,
+    };
+    await storage.storeReportFile(run.id, report, buffer);
+    reports.push(report);
+  }
+
+  return {
+    runId: run.id,
+    expiresAt: run.expiresAt.toISOString(),
+    lotMethod: options.lotMethod,
+    longTermDays: options.longTermDays,
+    washSaleScope: options.washSaleScope,
+    twrMethod: options.twrMethod,
+    sourceSheets,
+    vintages: results,
+    validation: summarizeValidation(validation),
+    duplicates: { ...duplicates.options, count: duplicates.matches.length },
+    reports,
+    message: `Successfully processed ${results.length} Vintage${
+      results.length !== 1 ? "s" : ""
+    }: ${results.map((v) => v.vintageName).join(", ")}`,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Process uploaded Excel files
+  // Process uploaded Excel, CSV or TSV files; the price history is optional
   app.post(
     "/api/process-files",
     upload.fields([
       { name: "realized", maxCount: 1 },
       { name: "unrealized", maxCount: 1 },
+      { name: "prices", maxCount: 1 },
     ]),
     async (req, res) => {
       try {
         const files = req.files as {
           realized?: Express.Multer.File[];
           unrealized?: Express.Multer.File[];
+          prices?: Express.Multer.File[];
         };
 
         if (!files?.realized?.[0] || !files?.unrealized?.[0]) {
           return res.status(400).json({
-            message: "Both realized and unrealized Excel files are required",
+            message: "Both realized and unrealized files are required",
           });
         }
 
-        const realizedBuffer = files.realized[0].buffer;
-        const unrealizedBuffer = files.unrealized[0].buffer;
+        const parsed = await parseProcessOptions(req.body);
+        if (parsed.error !== undefined) {
+          return res.status(400).json({ message: parsed.error });
+        }
 
-        // Process the files and generate vintage Excel files
-        const { vintageData, results } = await ExcelProcessor.processAndGenerateFiles(
-          realizedBuffer,
-          unrealizedBuffer
+        const response = await processIntoRun(
+          toSourceUpload(files.realized[0]),
+          toSourceUpload(files.unrealized[0]),
+          parsed.options,
+          files.prices?.[0] && toSourceUpload(files.prices[0])
         );
+        res.json(response);
+      } catch (error) {
+        console.error("Error processing files:", error);
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Failed to process files",
+        });
+      }
+    }
+  );
+
+  // Parse both uploads and return a sample of their rows without creating a run
+  app.post(
+    "/api/preview",
+    upload.fields([
+      { name: "realized", maxCount: 1 },
+      { name: "unrealized", maxCount: 1 },
+    ]),
+    async (req, res) => {
+      try {
+        const files = req.files as {
+          realized?: Express.Multer.File[];
+          unrealized?: Express.Multer.File[];
+        };
 
-        // Store the generated files in memory
-        for (const vintage of vintageData) {
-          const buffer = ExcelProcessor.generateVintageExcel(vintage);
-          await storage.storeVintageFile(vintage.vintageName, buffer);
+        if (!files?.realized?.[0] || !files?.unrealized?.[0]) {
+          return res.status(400).json({
+            message: "Both realized and unrealized files are required",
+          });
         }
 
-        res.json({
-          vintages: results,
-          message: `Successfully processed ${results.length} Vintage${
-            results.length !== 1 ? "s" : ""
-          }: ${results.map((v) => v.vintageName).join(", ")}`,
-        });
+        const parsed = await parseProcessOptions(req.body);
+        if (parsed.error !== undefined) {
+          return res.status(400).json({ message: parsed.error });
+        }
+
+        const preview = ExcelProcessor.previewFiles(
+          files.realized[0].buffer,
+          files.unrealized[0].buffer,
+          parsed.options
+        );
+        res.json(preview);
       } catch (error) {
-        console.error("Error processing files:", error);
+        console.error("Error previewing files:", error);
         res.status(500).json({
-          message: error instanceof Error ? error.message : "Failed to process files",
+          message: error instanceof Error ? error.message : "Failed to preview files",
         });
       }
     }
   );
 
-  // Download a specific vintage file
-  app.get("/api/download/:vintageName", async (req, res) => {
+  // List the sheets of a single uploaded file so the user can pick which to read
+  app.post("/api/sheets", upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+
+      const kind = sourceFileKindSchema.safeParse(req.body?.kind ?? "realized");
+      if (!kind.success) {
+        return res.status(400).json({ message: fromZodError(kind.error).message });
+      }
+
+      const profile = await findMappingProfile(req.body?.mappingProfile);
+      if (!profile) {
+        return res.status(400).json({
+          message: `Mapping profile '${req.body.mappingProfile}' not found`,
+        });
+      }
+
+      res.json({
+        sheets: ExcelProcessor.inspectSheets(req.file.buffer, kind.data, profile),
+      });
+    } catch (error) {
+      console.error("Error inspecting sheets:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to inspect sheets",
+      });
+    }
+  });
+
+  // Download a specific vintage file from a processing run
+  app.get("/api/download/:runId/:vintageName", async (req, res) => {
     try {
+      const runId = req.params.runId;
       const vintageName = decodeURIComponent(req.params.vintageName);
-      const buffer = await storage.getVintageFile(vintageName);
+      const buffer = await storage.getVintageFile(runId, vintageName);
 
       if (!buffer) {
         return res.status(404).json({
-          message: `Vintage file '${vintageName}' not found`,
+          message: `Vintage file '${vintageName}' not found for run '${runId}'`,
         });
       }
 
@@ -106,6 +390,248 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download a run-level report, such as the validation issues or a vintage PDF
+  app.get("/api/runs/:runId/reports/:name", async (req, res) => {
+    try {
+      const { runId, name } = req.params;
+      const report = (await storage.getRunRecord(runId))?.reports.find((r) => r.name === name);
+      const buffer = report && (await storage.getReportFile(runId, name));
+
+      if (!report || !buffer) {
+        return res.status(404).json({
+          message: `Report '${name}' not found for run '${runId}'`,
+        });
+      }
+
+      res.setHeader(
+        "Content-Type",
+        report.filename.toLowerCase().endsWith(".pdf")
+          ? "application/pdf"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader("Content-Disposition", `attachment; filename="${report.filename}"`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to download report",
+      });
+    }
+  });
+
+  // Download every vintage workbook of a run as one ZIP with a manifest
+  app.get("/api/runs/:runId/archive", async (req, res) => {
+    try {
+      const runId = req.params.runId;
+      const record = await storage.getRunRecord(runId);
+      if (!record) {
+        return res.status(404).json({ message: `Run '${runId}' not found` });
+      }
+
+      const files: ArchiveFile[] = [];
+      for (const { vintageName } of record.vintages) {
+        const buffer = await storage.getVintageFile(runId, vintageName);
+        if (!buffer) {
+          return res.status(404).json({
+            message: `Vintage file '${vintageName}' not found for run '${runId}'`,
+          });
+        }
+        files.push({ vintageName, buffer });
+      }
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="Vintages_${runId}.zip"`);
+      await writeRunArchive(res, buildArchiveManifest(record, files), files);
+    } catch (error) {
+      console.error("Error archiving run:", error);
+      // Once streaming has started the only way to signal failure is to cut
+      // the response short
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to archive run",
+      });
+    }
+  });
+
+  // List all stored processing runs, newest first
+  app.get("/api/runs", async (_req, res) => {
+    try {
+      res.json(await storage.listRuns());
+    } catch (error) {
+      console.error("Error listing runs:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to list runs",
+      });
+    }
+  });
+
+  // Get a single processing run with its source files and vintages
+  app.get("/api/runs/:runId", async (req, res) => {
+    try {
+      const record = await storage.getRunRecord(req.params.runId);
+
+      if (!record) {
+        return res.status(404).json({
+          message: `Run '${req.params.runId}' not found`,
+        });
+      }
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error fetching run:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to fetch run",
+      });
+    }
+  });
+
+  // Re-process a run's source files with the current generator version
+  app.post("/api/runs/:runId/reprocess", async (req, res) => {
+    try {
+      const runId = req.params.runId;
+      const record = await storage.getRunRecord(runId);
+      const realizedBuffer = await storage.getSourceFile(runId, "realized");
+      const unrealizedBuffer = await storage.getSourceFile(runId, "unrealized");
+      const realizedFile = record?.sourceFiles.find((f) => f.kind === "realized");
+      const unrealizedFile = record?.sourceFiles.find((f) => f.kind === "unrealized");
+      const pricesBuffer = await storage.getSourceFile(runId, "prices");
+      const pricesFile = record?.sourceFiles.find((f) => f.kind === "prices");
+
+      if (!realizedBuffer || !unrealizedBuffer || !realizedFile || !unrealizedFile) {
+        return res.status(404).json({
+          message: `Source files for run '${runId}' not found`,
+        });
+      }
+
+      // Re-use the run's mapping profile, sheets, header rows, duplicate
+      // handling, lot method and other options unless the caller picks others
+      const parsed = await parseProcessOptions(req.body, record!);
+      if (parsed.error !== undefined) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const response = await processIntoRun(
+        { file: realizedFile, buffer: realizedBuffer },
+        { file: unrealizedFile, buffer: unrealizedBuffer },
+        parsed.options,
+        pricesBuffer && pricesFile ? { file: pricesFile, buffer: pricesBuffer } : undefined
+      );
+      res.json(response);
+    } catch (error) {
+      console.error("Error re-processing run:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to re-process run",
+      });
+    }
+  });
+
+  // Delete a processing run and all of its generated files
+  app.delete("/api/runs/:runId", async (req, res) => {
+    try {
+      const deleted = await storage.deleteRun(req.params.runId);
+
+      if (!deleted) {
+        return res.status(404).json({
+          message: `Run '${req.params.runId}' not found`,
+        });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting run:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to delete run",
+      });
+    }
+  });
+
+  // List column mapping profiles, built-in default first
+  app.get("/api/mapping-profiles", async (_req, res) => {
+    try {
+      const profiles = await storage.listMappingProfiles();
+      res.json([DEFAULT_MAPPING_PROFILE, ...profiles]);
+    } catch (error) {
+      console.error("Error listing mapping profiles:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to list mapping profiles",
+      });
+    }
+  });
+
+  // Get a single column mapping profile
+  app.get("/api/mapping-profiles/:name", async (req, res) => {
+    try {
+      const profile = await findMappingProfile(req.params.name);
+
+      if (!profile) {
+        return res.status(404).json({
+          message: `Mapping profile '${req.params.name}' not found`,
+        });
+      }
+
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching mapping profile:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to fetch mapping profile",
+      });
+    }
+  });
+
+  // Create or replace a column mapping profile
+  app.put("/api/mapping-profiles/:name", async (req, res) => {
+    try {
+      if (req.params.name === DEFAULT_PROFILE_NAME) {
+        return res.status(400).json({
+          message: "The default mapping profile cannot be modified",
+        });
+      }
+
+      const parsed = mappingProfileSchema.safeParse({ ...req.body, name: req.params.name });
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: fromZodError(parsed.error).message,
+        });
+      }
+
+      res.json(await storage.saveMappingProfile(parsed.data));
+    } catch (error) {
+      console.error("Error saving mapping profile:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to save mapping profile",
+      });
+    }
+  });
+
+  // Delete a column mapping profile
+  app.delete("/api/mapping-profiles/:name", async (req, res) => {
+    try {
+      if (req.params.name === DEFAULT_PROFILE_NAME) {
+        return res.status(400).json({
+          message: "The default mapping profile cannot be deleted",
+        });
+      }
+
+      const deleted = await storage.deleteMappingProfile(req.params.name);
+
+      if (!deleted) {
+        return res.status(404).json({
+          message: `Mapping profile '${req.params.name}' not found`,
+        });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting mapping profile:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to delete mapping profile",
+      });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
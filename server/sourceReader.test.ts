@@ -0,0 +1,54 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { detectDelimiter, parseDecimalComma, readWorkbook } from "./sourceReader";
+
+function readRows(text: string): any[] {
+  const workbook = readWorkbook(Buffer.from(text, "utf8"));
+  return XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
+}
+
+describe("parseDecimalComma", () => {
+  it("reads decimal commas and dot thousands groups", () => {
+    expect(parseDecimalComma("1,5")).toBe(1.5);
+    expect(parseDecimalComma("-1.234,56")).toBe(-1234.56);
+    expect(parseDecimalComma("1.234.567")).toBe(1234567);
+    expect(parseDecimalComma(" 42 ")).toBe(42);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDecimalComma("120.5")).toBeUndefined();
+    expect(parseDecimalComma("25.01.2024")).toBeUndefined();
+    expect(parseDecimalComma("AAPL")).toBeUndefined();
+    expect(parseDecimalComma("")).toBeUndefined();
+  });
+});
+
+describe("readWorkbook", () => {
+  it("detects the delimiter", () => {
+    expect(detectDelimiter("a;b;c\n1;2;3")).toBe(";");
+    expect(detectDelimiter("a\tb\n1\t2")).toBe("\t");
+    expect(detectDelimiter('a,b\n"1,5",2')).toBe(",");
+  });
+
+  it("reads semicolon-separated numbers with a decimal comma", () => {
+    const rows = readRows(
+      "Symbol;TradeDate;Quantity;Price;Amount\n" +
+        "AAPL;25.01.2024;1,5;1.234,50;-1.851,75\n" +
+        "MSFT;26.01.2024;10;99,9;999\n"
+    );
+    expect(rows).toEqual([
+      { Symbol: "AAPL", TradeDate: "25.01.2024", Quantity: 1.5, Price: 1234.5, Amount: -1851.75 },
+      { Symbol: "MSFT", TradeDate: "26.01.2024", Quantity: 10, Price: 99.9, Amount: 999 },
+    ]);
+  });
+
+  it("keeps comma thousands separators in comma-separated files", () => {
+    const rows = readRows('Symbol,Amount,Price\nAAPL,"1,000",1.5\n');
+    expect(rows).toEqual([{ Symbol: "AAPL", Amount: 1000, Price: 1.5 }]);
+  });
+
+  it("keeps text dates as written", () => {
+    const rows = readRows("Symbol,TradeDate\nAAPL,1/5/2024\nMSFT,25/01/2024\n");
+    expect(rows.map((row) => row.TradeDate)).toEqual(["1/5/2024", "25/01/2024"]);
+  });
+});
@@ -0,0 +1,162 @@
+import * as XLSX from "xlsx";
+
+export type SourceFormat = "xlsx" | "xls" | "delimited";
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+// Delimiters considered when sniffing CSV/TSV uploads
+const CANDIDATE_DELIMITERS = [",", "\t", ";", "|"];
+
+// Number of lines inspected when guessing the delimiter
+const SNIFF_LINES = 20;
+
+// Semicolon-separated exports come from locales that write 1.234,56: an
+// optional sign, digits with optional dot thousands groups, and an optional
+// decimal comma
+const DECIMAL_COMMA_NUMBER = /^([-+]?)(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d+))?$/;
+
+/**
+ * Detect the file format from its leading bytes rather than trusting the
+ * extension or the browser-supplied MIME type
+ */
+export function detectFormat(buffer: Buffer): SourceFormat {
+  // XLSX is a ZIP container ("PK\x03\x04")
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x504b0304) {
+    return "xlsx";
+  }
+  // Legacy XLS is an OLE compound document
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0xd0cf11e0 && buffer.readUInt32BE(4) === 0xa1b11ae1) {
+    return "xls";
+  }
+  return "delimited";
+}
+
+/**
+ * Detect the text encoding from the BOM, falling back to a NUL-byte
+ * heuristic for UTF-16 and a strict UTF-8 decode attempt before
+ * assuming Windows-1252
+ */
+export function detectEncoding(buffer: Buffer): { encoding: TextEncoding; bomLength: number } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: "utf-8", bomLength: 3 };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { encoding: "utf-16le", bomLength: 2 };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { encoding: "utf-16be", bomLength: 2 };
+  }
+
+  // ASCII text in UTF-16 without a BOM has a NUL in every other byte
+  const sample = buffer.subarray(0, 1024);
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenNuls++;
+      else oddNuls++;
+    }
+  }
+  const halfLength = sample.length / 2;
+  if (oddNuls > halfLength * 0.3 && evenNuls < halfLength * 0.05) {
+    return { encoding: "utf-16le", bomLength: 0 };
+  }
+  if (evenNuls > halfLength * 0.3 && oddNuls < halfLength * 0.05) {
+    return { encoding: "utf-16be", bomLength: 0 };
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return { encoding: "utf-8", bomLength: 0 };
+  } catch {
+    return { encoding: "windows-1252", bomLength: 0 };
+  }
+}
+
+export function decodeText(buffer: Buffer): string {
+  const { encoding, bomLength } = detectEncoding(buffer);
+  return new TextDecoder(encoding).decode(buffer.subarray(bomLength));
+}
+
+/**
+ * Count delimiter occurrences per line, ignoring anything inside quotes
+ */
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most columns,
+ * preferring delimiters that produce the same column count on every line
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim().length > 0)
+    .slice(0, SNIFF_LINES);
+
+  let best = ",";
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    const minimum = Math.min(...counts);
+    if (minimum === 0) continue;
+
+    const consistent = counts.every((count) => count === counts[0]);
+    const score = minimum + (consistent ? 1000 : 0);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Number written with a decimal comma (1.234,56), undefined for any other
+ * text
+ */
+export function parseDecimalComma(text: string): number | undefined {
+  const match = text.trim().match(DECIMAL_COMMA_NUMBER);
+  if (!match) return undefined;
+  const [, sign, whole, fraction] = match;
+  return Number(`${sign}${whole.replace(/\./g, "")}.${fraction ?? "0"}`);
+}
+
+/**
+ * Read an uploaded source file into a workbook. Excel files are read
+ * directly; CSV/TSV files are decoded and parsed into a single-sheet
+ * workbook so they flow through the same processing path. Text dates in
+ * CSV/TSV files are kept as written, since SheetJS would read them month
+ * first; they are parsed later with the mapping profile's date order.
+ * Numbers in semicolon-separated files are read with a decimal comma,
+ * which SheetJS would take for a thousands separator.
+ */
+export function readWorkbook(buffer: Buffer): XLSX.WorkBook {
+  if (detectFormat(buffer) !== "delimited") {
+    return XLSX.read(buffer, { type: "buffer" });
+  }
+
+  const text = decodeText(buffer);
+  const FS = detectDelimiter(text);
+  // With cellNF, only cells SheetJS took for dates keep a number format
+  const workbook = XLSX.read(text, { type: "string", FS, cellNF: true });
+  const written = XLSX.read(text, { type: "string", FS, raw: true });
+  for (const name of workbook.SheetNames) {
+    const sheet = workbook.Sheets[name];
+    for (const address of Object.keys(sheet)) {
+      if (address.startsWith("!")) continue;
+      const cell = written.Sheets[name][address];
+      const decimal = FS === ";" ? parseDecimalComma(String(cell.v)) : undefined;
+      if (decimal !== undefined) sheet[address] = { t: "n", v: decimal };
+      else if (sheet[address].z !== undefined) sheet[address] = cell;
+    }
+  }
+  return workbook;
+}
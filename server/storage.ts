@@ -1,31 +1,415 @@
 import { randomUUID } from "crypto";
+import type {
+  DuplicateHandling,
+  DuplicateKeyField,
+  LotMethod,
+  MappingProfile,
+  ReportFile,
+  RunRecord,
+  SheetSelection,
+  StoredFileKind,
+  TwrMethod,
+  UploadedFile,
+  VintageResult,
+  WashSaleScope,
+} from "@shared/schema";
+import { createDb } from "./db";
+import { DbStorage } from "./dbStorage";
+import { FileSystemStorage } from "./fsStorage";
 
-// Storage for processed vintage files
+// Retention settings, overridable through the environment
+const DEFAULT_RUN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000; // 1 minute
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024; // 256MB
+
+export interface RetentionOptions {
+  runTtlMs: number;
+  sweepIntervalMs: number;
+  maxBytes: number;
+}
+
+/**
+ * Positive whole number from an environment variable, or the default when
+ * the variable is unset or holds anything else (a typo, zero, a negative)
+ */
+function positiveIntegerFromEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return defaultValue;
+
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    console.warn(`Ignoring invalid ${name} '${raw}', using the default of ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
+export function retentionOptionsFromEnv(): RetentionOptions {
+  return {
+    runTtlMs: positiveIntegerFromEnv("RUN_TTL_MS", DEFAULT_RUN_TTL_MS),
+    sweepIntervalMs: positiveIntegerFromEnv("STORAGE_SWEEP_INTERVAL_MS", DEFAULT_SWEEP_INTERVAL_MS),
+    maxBytes: positiveIntegerFromEnv("STORAGE_MAX_BYTES", DEFAULT_MAX_BYTES),
+  };
+}
+
+// Settings a processing run was generated with
+export interface RunOptions {
+  generatorVersion: string;
+  mappingProfile: string;
+  lotMethod: LotMethod;
+  longTermDays: number;
+  washSaleScope: WashSaleScope;
+  twrMethod: TwrMethod;
+  // 1-based header row overrides; detected when omitted
+  realizedHeaderRow?: number;
+  unrealizedHeaderRow?: number;
+  // Sheets read from each source workbook; the first sheet when omitted
+  realizedSheets?: SheetSelection;
+  unrealizedSheets?: SheetSelection;
+  duplicateKey: DuplicateKeyField[];
+  duplicateHandling: DuplicateHandling;
+}
+
+// Lifetime information for a processing run
+export interface RunInfo extends RunOptions {
+  id: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// Storage for processed vintage files, scoped per processing run
 export interface IStorage {
-  storeVintageFile(vintageName: string, buffer: Buffer): Promise<string>;
-  getVintageFile(vintageName: string): Promise<Buffer | undefined>;
+  createRun(options: RunOptions): Promise<RunInfo>;
+  getRun(runId: string): Promise<RunInfo | undefined>;
+  listRuns(): Promise<RunRecord[]>;
+  getRunRecord(runId: string): Promise<RunRecord | undefined>;
+  deleteRun(runId: string): Promise<boolean>;
+  purgeExpiredRuns(now?: Date): Promise<number>;
+  storeSourceFile(
+    runId: string,
+    kind: StoredFileKind,
+    file: UploadedFile,
+    buffer: Buffer
+  ): Promise<void>;
+  getSourceFile(runId: string, kind: StoredFileKind): Promise<Buffer | undefined>;
+  storeVintageFile(runId: string, vintage: VintageResult, buffer: Buffer): Promise<string>;
+  getVintageFile(runId: string, vintageName: string): Promise<Buffer | undefined>;
+  storeReportFile(runId: string, report: ReportFile, buffer: Buffer): Promise<void>;
+  getReportFile(runId: string, name: string): Promise<Buffer | undefined>;
   clearVintageFiles(): Promise<void>;
+  listMappingProfiles(): Promise<MappingProfile[]>;
+  getMappingProfile(name: string): Promise<MappingProfile | undefined>;
+  saveMappingProfile(profile: MappingProfile): Promise<MappingProfile>;
+  deleteMappingProfile(name: string): Promise<boolean>;
+}
+
+interface MemRun extends RunInfo {
+  sourceFiles: Map<StoredFileKind, { file: UploadedFile; buffer: Buffer }>;
+  files: Map<string, { vintage: VintageResult; buffer: Buffer }>;
+  reports: Map<string, { report: ReportFile; buffer: Buffer }>;
+  size: number;
 }
 
 export class MemStorage implements IStorage {
-  private vintageFiles: Map<string, Buffer>;
+  // Map iteration order doubles as the LRU order: least recently used first
+  private runs: Map<string, MemRun>;
+  private totalBytes: number;
+  private mappingProfiles: Map<string, MappingProfile>;
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(private options: RetentionOptions = retentionOptionsFromEnv()) {
+    this.runs = new Map();
+    this.totalBytes = 0;
+    this.mappingProfiles = new Map();
+  }
+
+  /**
+   * Start the background sweeper that purges expired runs
+   */
+  startSweeper(): void {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => {
+      this.purgeExpiredRuns().catch((error) => {
+        console.error("Error purging expired runs:", error);
+      });
+    }, this.options.sweepIntervalMs);
+    // Never keep the process alive just for the sweeper
+    this.sweeper.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+
+  async createRun({
+    generatorVersion,
+    mappingProfile,
+    lotMethod,
+    longTermDays,
+    washSaleScope,
+    twrMethod,
+    realizedHeaderRow,
+    unrealizedHeaderRow,
+    realizedSheets,
+    unrealizedSheets,
+    duplicateKey,
+    duplicateHandling,
+  }: RunOptions): Promise<RunInfo> {
+    const createdAt = new Date();
+    const run: MemRun = {
+      id: randomUUID(),
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + this.options.runTtlMs),
+      generatorVersion,
+      mappingProfile,
+      lotMethod,
+      longTermDays,
+      washSaleScope,
+      twrMethod,
+      realizedHeaderRow,
+      unrealizedHeaderRow,
+      realizedSheets,
+      unrealizedSheets,
+      duplicateKey,
+      duplicateHandling,
+      sourceFiles: new Map(),
+      files: new Map(),
+      reports: new Map(),
+      size: 0,
+    };
+    this.runs.set(run.id, run);
+    return this.toRunInfo(run);
+  }
+
+  async getRun(runId: string): Promise<RunInfo | undefined> {
+    const run = this.getLiveRun(runId);
+    return run && this.toRunInfo(run);
+  }
+
+  async listRuns(): Promise<RunRecord[]> {
+    const now = new Date();
+    return Array.from(this.runs.values())
+      .filter((run) => run.expiresAt > now)
+      .map((run) => this.toRunRecord(run))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
 
-  constructor() {
-    this.vintageFiles = new Map();
+  async getRunRecord(runId: string): Promise<RunRecord | undefined> {
+    const run = this.getLiveRun(runId);
+    return run && this.toRunRecord(run);
   }
 
-  async storeVintageFile(vintageName: string, buffer: Buffer): Promise<string> {
-    this.vintageFiles.set(vintageName, buffer);
-    return vintageName;
+  async deleteRun(runId: string): Promise<boolean> {
+    const run = this.runs.get(runId);
+    if (!run) return false;
+    this.totalBytes -= run.size;
+    this.runs.delete(runId);
+    return true;
   }
 
-  async getVintageFile(vintageName: string): Promise<Buffer | undefined> {
-    return this.vintageFiles.get(vintageName);
+  async purgeExpiredRuns(now: Date = new Date()): Promise<number> {
+    let purged = 0;
+    for (const run of Array.from(this.runs.values())) {
+      if (run.expiresAt <= now) {
+        await this.deleteRun(run.id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async storeSourceFile(
+    runId: string,
+    kind: StoredFileKind,
+    file: UploadedFile,
+    buffer: Buffer
+  ): Promise<void> {
+    const run = this.requireLiveRun(runId);
+
+    const previous = run.sourceFiles.get(kind);
+    run.sourceFiles.set(kind, { file, buffer });
+    this.addBytes(run, buffer.length - (previous?.buffer.length ?? 0));
+
+    await this.evictToCeiling(runId);
+  }
+
+  async getSourceFile(runId: string, kind: StoredFileKind): Promise<Buffer | undefined> {
+    return this.getLiveRun(runId)?.sourceFiles.get(kind)?.buffer;
+  }
+
+  async storeVintageFile(runId: string, vintage: VintageResult, buffer: Buffer): Promise<string> {
+    const run = this.requireLiveRun(runId);
+
+    const previous = run.files.get(vintage.vintageName);
+    run.files.set(vintage.vintageName, { vintage, buffer });
+    this.addBytes(run, buffer.length - (previous?.buffer.length ?? 0));
+
+    await this.evictToCeiling(runId);
+    return vintage.vintageName;
+  }
+
+  async getVintageFile(runId: string, vintageName: string): Promise<Buffer | undefined> {
+    return this.getLiveRun(runId)?.files.get(vintageName)?.buffer;
+  }
+
+  async storeReportFile(runId: string, report: ReportFile, buffer: Buffer): Promise<void> {
+    const run = this.requireLiveRun(runId);
+
+    const previous = run.reports.get(report.name);
+    run.reports.set(report.name, { report, buffer });
+    this.addBytes(run, buffer.length - (previous?.buffer.length ?? 0));
+
+    await this.evictToCeiling(runId);
+  }
+
+  async getReportFile(runId: string, name: string): Promise<Buffer | undefined> {
+    return this.getLiveRun(runId)?.reports.get(name)?.buffer;
   }
 
   async clearVintageFiles(): Promise<void> {
-    this.vintageFiles.clear();
+    this.runs.clear();
+    this.totalBytes = 0;
+  }
+
+  async listMappingProfiles(): Promise<MappingProfile[]> {
+    return Array.from(this.mappingProfiles.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async getMappingProfile(name: string): Promise<MappingProfile | undefined> {
+    return this.mappingProfiles.get(name);
+  }
+
+  async saveMappingProfile(profile: MappingProfile): Promise<MappingProfile> {
+    this.mappingProfiles.set(profile.name, profile);
+    return profile;
+  }
+
+  async deleteMappingProfile(name: string): Promise<boolean> {
+    return this.mappingProfiles.delete(name);
+  }
+
+  /**
+   * Look up a run, dropping it if its TTL has passed and marking it as
+   * most recently used otherwise
+   */
+  private getLiveRun(runId: string): MemRun | undefined {
+    const run = this.runs.get(runId);
+    if (!run) return undefined;
+
+    if (run.expiresAt <= new Date()) {
+      this.totalBytes -= run.size;
+      this.runs.delete(runId);
+      return undefined;
+    }
+
+    this.runs.delete(runId);
+    this.runs.set(runId, run);
+    return run;
+  }
+
+  private requireLiveRun(runId: string): MemRun {
+    const run = this.getLiveRun(runId);
+    if (!run) {
+      throw new Error(`Run '${runId}' not found or expired`);
+    }
+    return run;
+  }
+
+  private addBytes(run: MemRun, delta: number): void {
+    run.size += delta;
+    this.totalBytes += delta;
+  }
+
+  /**
+   * Evict least recently used runs until the memory ceiling is respected.
+   * The run currently being written is never evicted.
+   */
+  private async evictToCeiling(activeRunId: string): Promise<void> {
+    for (const run of Array.from(this.runs.values())) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+      if (run.id === activeRunId) continue;
+      await this.deleteRun(run.id);
+    }
+  }
+
+  private toRunInfo(run: MemRun): RunInfo {
+    return {
+      id: run.id,
+      createdAt: run.createdAt,
+      expiresAt: run.expiresAt,
+      generatorVersion: run.generatorVersion,
+      mappingProfile: run.mappingProfile,
+      lotMethod: run.lotMethod,
+      longTermDays: run.longTermDays,
+      washSaleScope: run.washSaleScope,
+      twrMethod: run.twrMethod,
+      realizedHeaderRow: run.realizedHeaderRow,
+      unrealizedHeaderRow: run.unrealizedHeaderRow,
+      realizedSheets: run.realizedSheets,
+      unrealizedSheets: run.unrealizedSheets,
+      duplicateKey: run.duplicateKey,
+      duplicateHandling: run.duplicateHandling,
+    };
+  }
+
+  private toRunRecord(run: MemRun): RunRecord {
+    return {
+      runId: run.id,
+      createdAt: run.createdAt.toISOString(),
+      expiresAt: run.expiresAt.toISOString(),
+      generatorVersion: run.generatorVersion,
+      mappingProfile: run.mappingProfile,
+      lotMethod: run.lotMethod,
+      longTermDays: run.longTermDays,
+      washSaleScope: run.washSaleScope,
+      twrMethod: run.twrMethod,
+      realizedHeaderRow: run.realizedHeaderRow,
+      unrealizedHeaderRow: run.unrealizedHeaderRow,
+      realizedSheets: run.realizedSheets,
+      unrealizedSheets: run.unrealizedSheets,
+      duplicateKey: run.duplicateKey,
+      duplicateHandling: run.duplicateHandling,
+      sourceFiles: Array.from(run.sourceFiles.entries()).map(([kind, { file }]) => ({
+        kind,
+        ...file,
+      })),
+      vintages: Array.from(run.files.values())
+        .map(({ vintage }) => vintage)
+        .sort((a, b) => a.vintageName.localeCompare(b.vintageName)),
+      reports: Array.from(run.reports.values())
+        .map(({ report }) => report)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+}
+
+/**
+ * Select the storage backend from STORAGE_BACKEND ("memory", "postgres" or "filesystem")
+ */
+export function createStorage(): IStorage & { startSweeper(): void } {
+  const backend = process.env.STORAGE_BACKEND || "memory";
+  const options = retentionOptionsFromEnv();
+
+  switch (backend) {
+    case "memory":
+      return new MemStorage(options);
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when STORAGE_BACKEND is 'postgres'");
+      }
+      return new DbStorage(createDb(process.env.DATABASE_URL), options);
+    }
+    case "filesystem":
+      return new FileSystemStorage(process.env.STORAGE_DIR || "./data/storage", options);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND '${backend}'`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
+storage.startSweeper();
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAPPING_PROFILE, resolveMapping } from "./columnMapping";
+import { parseDateText } from "./excelDates";
+import { matchLots, readTrades } from "./taxLots";
+
+const HEADERS = [
+  "Symbol",
+  "TradeDate",
+  "Buy/Sell",
+  "Amount",
+  "Vintage",
+  "Quantity",
+  "Price",
+  "Trade ID",
+  "Lot ID",
+];
+const UNREALIZED_HEADERS = ["Symbol", "Vintage", "Net Quantity", "Mark Price"];
+const MAPPING = resolveMapping(DEFAULT_MAPPING_PROFILE, HEADERS, UNREALIZED_HEADERS);
+
+function trade(date: string, side: string, quantity: number, price: number, id: string, lot = "") {
+  return {
+    Symbol: "AAPL",
+    TradeDate: parseDateText(date),
+    "Buy/Sell": side,
+    Amount: side === "BUY" ? -quantity * price : quantity * price,
+    Vintage: "CQ1",
+    Quantity: side === "BUY" ? quantity : -quantity,
+    Price: price,
+    "Trade ID": id,
+    "Lot ID": lot,
+  };
+}
+
+// Three lots of 10 at 100, 150 and 120, then 15 shares sold at 200
+const ROWS = [
+  trade("2023-01-05", "BUY", 10, 100, "T1"),
+  trade("2023-02-05", "BUY", 10, 150, "T2"),
+  trade("2023-03-05", "BUY", 10, 120, "T3"),
+  trade("2024-06-05", "SELL", 15, 200, "T4", "T3"),
+];
+
+const closed = (rows: any[], method: "fifo" | "lifo" | "hifo" | "specific") =>
+  matchLots(rows, MAPPING, method)!
+    .filter((line) => line.status === "closed")
+    .map(({ lot, quantity, costBasis, gain }) => ({ lot, quantity, costBasis, gain }));
+
+describe("matchLots", () => {
+  it("sells the oldest lots first with FIFO", () => {
+    expect(closed(ROWS, "fifo")).toEqual([
+      { lot: "T1", quantity: 10, costBasis: 1000, gain: 1000 },
+      { lot: "T2", quantity: 5, costBasis: 750, gain: 250 },
+    ]);
+  });
+
+  it("sells the newest lots first with LIFO", () => {
+    expect(closed(ROWS, "lifo")).toEqual([
+      { lot: "T3", quantity: 10, costBasis: 1200, gain: 800 },
+      { lot: "T2", quantity: 5, costBasis: 750, gain: 250 },
+    ]);
+  });
+
+  it("sells the costliest lots first with HIFO", () => {
+    expect(closed(ROWS, "hifo")).toEqual([
+      { lot: "T2", quantity: 10, costBasis: 1500, gain: 500 },
+      { lot: "T3", quantity: 5, costBasis: 600, gain: 400 },
+    ]);
+  });
+
+  it("sells the named lot first with specific identification, then FIFO", () => {
+    expect(closed(ROWS, "specific")).toEqual([
+      { lot: "T3", quantity: 10, costBasis: 1200, gain: 800 },
+      { lot: "T1", quantity: 5, costBasis: 500, gain: 500 },
+    ]);
+  });
+
+  it("notes a named lot that is not open and falls back to FIFO", () => {
+    const rows = [...ROWS.slice(0, 3), trade("2024-06-05", "SELL", 5, 200, "T4", "T9")];
+    expect(matchLots(rows, MAPPING, "specific")![0]).toMatchObject({
+      lot: "T1",
+      quantity: 5,
+      note: "Lot 'T9' is not open; FIFO used",
+    });
+  });
+
+  it("lists the open remainder and the holding period of each slice", () => {
+    const lines = matchLots(ROWS, MAPPING, "fifo")!;
+    expect(lines.map(({ lot, status, quantity }) => ({ lot, status, quantity }))).toEqual([
+      { lot: "T1", status: "closed", quantity: 10 },
+      { lot: "T2", status: "closed", quantity: 5 },
+      { lot: "T2", status: "open", quantity: 5 },
+      { lot: "T3", status: "open", quantity: 10 },
+    ]);
+    expect(lines[0].holdingDays).toBe(517);
+    expect(lines[3]).toMatchObject({ costBasis: 1200, lotRow: 2 });
+  });
+
+  it("reports sale quantity no open lot covers", () => {
+    const rows = [trade("2024-01-05", "BUY", 5, 100, "T1"), trade("2024-02-05", "SELL", 8, 90, "T2")];
+    expect(matchLots(rows, MAPPING, "fifo")).toEqual([
+      expect.objectContaining({ lot: "T1", status: "closed", quantity: 5, gain: -50 }),
+      expect.objectContaining({ lot: "", status: "uncovered", quantity: 3, proceeds: 270 }),
+    ]);
+  });
+
+  it("matches an intraday round trip however the rows are ordered", () => {
+    const rows = [trade("2024-01-05", "SELL", 5, 110, "T2"), trade("2024-01-05", "BUY", 5, 100, "T1")];
+    expect(closed(rows, "fifo")).toEqual([{ lot: "T1", quantity: 5, costBasis: 500, gain: 50 }]);
+  });
+
+  it("is undefined without a quantity column", () => {
+    const headers = HEADERS.filter((header) => header !== "Quantity");
+    const mapping = resolveMapping(DEFAULT_MAPPING_PROFILE, headers, UNREALIZED_HEADERS);
+    expect(matchLots(ROWS, mapping, "fifo")).toBeUndefined();
+  });
+});
+
+describe("readTrades", () => {
+  it("takes the per-share value from the amount, else the price", () => {
+    const rows = [
+      { ...trade("2024-01-05", "BUY", 4, 100, "T1"), Amount: -410 },
+      { ...trade("2024-01-06", "BUY", 4, 100, "T2"), Amount: undefined },
+      { ...trade("2024-01-07", "BUY", 4, 100, "T3"), "Buy/Sell": "TRANSFER" },
+    ];
+    expect(readTrades(rows, MAPPING).map(({ tradeId, perShare }) => ({ tradeId, perShare }))).toEqual([
+      { tradeId: "T1", perShare: 102.5 },
+      { tradeId: "T2", perShare: 100 },
+    ]);
+  });
+});
@@ -0,0 +1,305 @@
+import * as XLSX from "xlsx";
+import type { LotMethod } from "@shared/schema";
+import type { ResolvedMapping } from "./columnMapping";
+import { toExcelSerial } from "./excelDates";
+
+// Share quantities closer to zero than this count as fully matched
+const QUANTITY_TOLERANCE = 1e-9;
+
+export const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  hifo: "HIFO",
+  specific: "Specific identification",
+};
+
+// Header row of the Lots table; data starts on the row below
+export const LOTS_HEADER_ROW = 3;
+
+export type LotStatus = "closed" | "open" | "uncovered";
+
+// A slice of a BUY lot: sold by one SELL (closed), still held (open), or a
+// SELL quantity no open lot covered (uncovered, with no cost basis)
+export interface LotLine {
+  symbol: string;
+  lot: string;
+  acquired?: number;
+  sold?: number;
+  quantity: number;
+  costBasis?: number;
+  proceeds?: number;
+  gain?: number;
+  holdingDays?: number;
+  status: LotStatus;
+  note?: string;
+  // Disallowed wash sale loss added back to a loss sale's gain
+  adjustment?: number;
+  // Disallowed wash sale loss included in a replacement lot's cost basis
+  washSaleBasis?: number;
+  // Indices into the realized rows of the lot's BUY and of the SELL
+  lotRow?: number;
+  saleRow?: number;
+}
+
+// A realized BUY or SELL row with a usable quantity and per-share value
+export interface Trade {
+  symbol: string;
+  date: number;
+  isBuy: boolean;
+  quantity: number;
+  perShare: number;
+  tradeId: string;
+  lotId: string;
+  // Index into the realized rows
+  row: number;
+}
+
+interface OpenLot {
+  id: string;
+  row: number;
+  acquired: number;
+  remaining: number;
+  costPerShare: number;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read the realized rows as trades, skipping rows without a symbol, date,
+ * known side, quantity or per-share value. The per-share value comes from
+ * the amount when present, otherwise from the price.
+ */
+export function readTrades(rows: any[], mapping: ResolvedMapping): Trade[] {
+  const columns = mapping.realized;
+  const buy = mapping.buyValue.trim().toLowerCase();
+  const sell = mapping.sellValue.trim().toLowerCase();
+  const trades: Trade[] = [];
+
+  rows.forEach((values, row) => {
+    const symbol = String(values[columns.symbol!] ?? "").trim();
+    const date = toExcelSerial(values[columns.tradeDate!]);
+    const side = String(values[columns.side!] ?? "").trim().toLowerCase();
+    const quantity = Math.abs(toNumber(values[columns.quantity!]) ?? 0);
+    if (!symbol || date === undefined || (side !== buy && side !== sell) || quantity === 0) {
+      return;
+    }
+
+    const amount = toNumber(values[columns.amount!]);
+    const perShare =
+      amount !== undefined ? Math.abs(amount) / quantity : toNumber(values[columns.price ?? ""]);
+    if (perShare === undefined) return;
+
+    trades.push({
+      symbol,
+      date,
+      isBuy: side === buy,
+      quantity,
+      perShare,
+      tradeId: columns.tradeId ? String(values[columns.tradeId] ?? "").trim() : "",
+      lotId: columns.lotId ? String(values[columns.lotId] ?? "").trim() : "",
+      row,
+    });
+  });
+
+  // Oldest first; on the same day BUYs come before SELLs so intraday round
+  // trips find their lot
+  return trades.sort(
+    (a, b) => a.date - b.date || Number(b.isBuy) - Number(a.isBuy) || a.row - b.row
+  );
+}
+
+/**
+ * Open lots in the order the method sells them. Specific identification
+ * sells the named lot first and falls back to FIFO for the rest.
+ */
+function lotsInSaleOrder(lots: OpenLot[], method: LotMethod, lotId: string): OpenLot[] {
+  switch (method) {
+    case "lifo":
+      return lots.slice().reverse();
+    case "hifo":
+      return lots.slice().sort((a, b) => b.costPerShare - a.costPerShare);
+    case "specific": {
+      const named = lots.filter((lot) => lot.id === lotId);
+      return [...named, ...lots.filter((lot) => lot.id !== lotId)];
+    }
+    default:
+      return lots.slice();
+  }
+}
+
+/**
+ * Match each SELL against open BUY lots with the given method and return
+ * the closed lot slices, uncovered sales and remaining open lots per
+ * symbol. Undefined when the realized file has no quantity column.
+ */
+export function matchLots(
+  rows: any[],
+  mapping: ResolvedMapping,
+  method: LotMethod
+): LotLine[] | undefined {
+  if (!mapping.realized.quantity) return undefined;
+
+  const bySymbol = new Map<string, Trade[]>();
+  for (const trade of readTrades(rows, mapping)) {
+    bySymbol.set(trade.symbol, [...(bySymbol.get(trade.symbol) ?? []), trade]);
+  }
+
+  const lines: LotLine[] = [];
+  for (const symbol of Array.from(bySymbol.keys()).sort()) {
+    const open: OpenLot[] = [];
+    let lotNumber = 0;
+
+    for (const trade of bySymbol.get(symbol)!) {
+      if (trade.isBuy) {
+        lotNumber++;
+        open.push({
+          id: trade.tradeId || `${symbol} #${lotNumber}`,
+          row: trade.row,
+          acquired: trade.date,
+          remaining: trade.quantity,
+          costPerShare: trade.perShare,
+        });
+        continue;
+      }
+
+      let note: string | undefined;
+      if (method === "specific" && !open.some((lot) => lot.id === trade.lotId)) {
+        note = trade.lotId
+          ? `Lot '${trade.lotId}' is not open; FIFO used`
+          : "No lot named on the sale; FIFO used";
+      }
+
+      let remaining = trade.quantity;
+      for (const lot of lotsInSaleOrder(open, method, trade.lotId)) {
+        if (remaining <= QUANTITY_TOLERANCE) break;
+
+        const quantity = Math.min(remaining, lot.remaining);
+        const costBasis = quantity * lot.costPerShare;
+        const proceeds = quantity * trade.perShare;
+        lines.push({
+          symbol,
+          lot: lot.id,
+          acquired: lot.acquired,
+          sold: trade.date,
+          quantity,
+          costBasis,
+          proceeds,
+          gain: proceeds - costBasis,
+          holdingDays: trade.date - lot.acquired,
+          status: "closed",
+          note,
+          lotRow: lot.row,
+          saleRow: trade.row,
+        });
+
+        lot.remaining -= quantity;
+        remaining -= quantity;
+        if (lot.remaining <= QUANTITY_TOLERANCE) {
+          open.splice(open.indexOf(lot), 1);
+        }
+      }
+
+      if (remaining > QUANTITY_TOLERANCE) {
+        lines.push({
+          symbol,
+          lot: "",
+          sold: trade.date,
+          quantity: remaining,
+          proceeds: remaining * trade.perShare,
+          status: "uncovered",
+          note: "No open lot covers this sale",
+          saleRow: trade.row,
+        });
+      }
+    }
+
+    for (const lot of open) {
+      lines.push({
+        symbol,
+        lot: lot.id,
+        acquired: lot.acquired,
+        quantity: lot.remaining,
+        costBasis: lot.remaining * lot.costPerShare,
+        status: "open",
+        lotRow: lot.row,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Build the Lots sheet: the method on top, then one row per lot slice.
+ * Gain/Loss (proceeds less basis plus any wash sale adjustment) and Holding
+ * Days are formulas over the row's own cells.
+ */
+export function buildLotsSheet(lines: LotLine[] | undefined, method: LotMethod): XLSX.WorkSheet {
+  const sheet: XLSX.WorkSheet = {};
+  sheet["A1"] = { v: "Lot method", t: "s" };
+  sheet["B1"] = { v: LOT_METHOD_LABELS[method], t: "s" };
+
+  const headers = [
+    "Symbol",
+    "Lot",
+    "Acquired",
+    "Sold",
+    "Quantity",
+    "Cost Basis",
+    "Proceeds",
+    "Gain/Loss",
+    "Holding Days",
+    "Status",
+    "Note",
+    "Adjustment",
+  ];
+  headers.forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: LOTS_HEADER_ROW - 1, c })] = { v: header, t: "s" };
+  });
+
+  const rows = lines ?? [];
+  if (!lines) {
+    sheet[`A${LOTS_HEADER_ROW + 1}`] = {
+      v: "Quantity column not found; lots not matched",
+      t: "s",
+    };
+  }
+
+  rows.forEach((line, index) => {
+    const r = LOTS_HEADER_ROW + 1 + index;
+    sheet[`A${r}`] = { v: line.symbol, t: "s" };
+    sheet[`B${r}`] = { v: line.lot, t: "s" };
+    if (line.acquired !== undefined) sheet[`C${r}`] = { v: line.acquired, t: "n", z: "yyyy-mm-dd" };
+    if (line.sold !== undefined) sheet[`D${r}`] = { v: line.sold, t: "n", z: "yyyy-mm-dd" };
+    sheet[`E${r}`] = { v: line.quantity, t: "n" };
+    if (line.costBasis !== undefined) sheet[`F${r}`] = { v: line.costBasis, t: "n", z: "0.00" };
+    if (line.proceeds !== undefined) sheet[`G${r}`] = { v: line.proceeds, t: "n", z: "0.00" };
+    if (line.status === "closed") {
+      sheet[`H${r}`] = { f: `G${r}-F${r}+L${r}`, v: line.gain, t: "n", z: "0.00" };
+      sheet[`I${r}`] = { f: `D${r}-C${r}`, v: line.holdingDays, t: "n" };
+    }
+    sheet[`J${r}`] = { v: line.status, t: "s" };
+    if (line.note) sheet[`K${r}`] = { v: line.note, t: "s" };
+    if (line.adjustment !== undefined) sheet[`L${r}`] = { v: line.adjustment, t: "n", z: "0.00" };
+  });
+
+  const lastRow = LOTS_HEADER_ROW + Math.max(rows.length, 1);
+  sheet["!ref"] = `A1:L${lastRow}`;
+  sheet["!cols"] = [
+    { wch: 12 },
+    { wch: 16 },
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 10 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 13 },
+    { wch: 10 },
+    { wch: 36 },
+    { wch: 12 },
+  ];
+  return sheet;
+}
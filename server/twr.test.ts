@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAPPING_PROFILE, resolveMapping } from "./columnMapping";
+import { parseDateText } from "./excelDates";
+import { computeTwr, readPriceHistory, summarizeTwr, type PriceSeries } from "./twr";
+
+const day = (text: string) => parseDateText(text)!;
+
+const MAPPING = resolveMapping(
+  DEFAULT_MAPPING_PROFILE,
+  ["Symbol", "TradeDate", "Buy/Sell", "Amount", "Vintage", "Quantity"],
+  ["Symbol", "Vintage", "Date", "Net Quantity", "Mark Price"]
+);
+
+function trade(date: string, side: string, quantity: number, amount: number) {
+  return { Symbol: "AAPL", TradeDate: day(date), "Buy/Sell": side, Amount: amount, Quantity: quantity };
+}
+
+// AAPL rises 10% in each half of February
+const PRICES: PriceSeries = new Map([
+  [
+    "AAPL",
+    [
+      { date: day("2024-01-31"), price: 100 },
+      { date: day("2024-02-15"), price: 110 },
+      { date: day("2024-02-29"), price: 121 },
+    ],
+  ],
+]);
+
+// 10 shares bought at the end of January and 10 more halfway through February
+const ROWS = [trade("2024-01-31", "BUY", 10, -1000), trade("2024-02-15", "BUY", 10, -1100)];
+
+describe("computeTwr", () => {
+  it("links the sub-periods between flows with the daily method", () => {
+    const data = computeTwr(ROWS, [], MAPPING, "daily", day("2024-02-29"), PRICES)!;
+
+    expect(data.priceSource).toBe("history");
+    expect(data.periods).toEqual([
+      { start: day("2024-01-31"), end: day("2024-02-15"), startValue: 1000, endValue: 1100, netFlow: 1100 },
+      { start: day("2024-02-15"), end: day("2024-02-29"), startValue: 2200, endValue: 2420, netFlow: 0 },
+    ]);
+
+    const twr = summarizeTwr(data);
+    expect(twr.cumulative).toBeCloseTo(0.21, 10);
+    expect(twr.months.map((month) => month.month)).toEqual(["2024-02"]);
+    expect(twr.months[0].return).toBeCloseTo(0.21, 10);
+    expect(twr.months[0].cumulative).toBe(twr.cumulative);
+  });
+
+  it("weights flows within each month with the monthly method", () => {
+    const data = computeTwr(ROWS, [], MAPPING, "monthly", day("2024-02-29"), PRICES)!;
+
+    expect(data.periods).toEqual([
+      { start: day("2024-01-31"), end: day("2024-02-29"), startValue: 1000, endValue: 1320, netFlow: 1100 },
+    ]);
+    // Modified Dietz: the BUY is invested for 14 of the month's 29 days
+    expect(summarizeTwr(data).cumulative).toBeCloseTo(320 / (1000 + (1100 * 14) / 29), 10);
+  });
+
+  it("is not moved by the size of sales and dividends", () => {
+    const rows = [
+      trade("2024-01-31", "BUY", 10, -1000),
+      trade("2024-02-15", "SELL", -5, 550),
+      trade("2024-02-15", "DIVIDEND", 0, 20),
+    ];
+    const data = computeTwr(rows, [], MAPPING, "daily", day("2024-02-29"), PRICES)!;
+
+    expect(data.flows).toEqual([
+      { date: day("2024-01-31"), amount: 1000 },
+      { date: day("2024-02-15"), amount: -570 },
+    ]);
+    expect(summarizeTwr(data).cumulative).toBeCloseTo(1.12 * 1.1 - 1, 10);
+  });
+
+  it("interpolates trade prices and unrealized marks without a price history", () => {
+    const unrealized = [{ Symbol: "AAPL", Date: day("2024-03-31"), "Net Quantity": 10, "Mark Price": 130 }];
+    const data = computeTwr(ROWS.slice(0, 1), unrealized, MAPPING, "daily", day("2024-03-31"))!;
+    const twr = summarizeTwr(data);
+
+    expect(data.priceSource).toBe("marks");
+    expect(twr.months.map((month) => month.month)).toEqual(["2024-02", "2024-03"]);
+    // 29 of the 60 days to the mark have passed by the end of February
+    expect(twr.months[0].return).toBeCloseTo(0.145, 10);
+    expect(twr.cumulative).toBeCloseTo(0.3, 10);
+  });
+
+  it("is undefined without a quantity column or dated trades", () => {
+    const mapping = resolveMapping(
+      DEFAULT_MAPPING_PROFILE,
+      ["Symbol", "TradeDate", "Buy/Sell", "Amount", "Vintage"],
+      ["Symbol", "Vintage"]
+    );
+    expect(computeTwr(ROWS, [], mapping, "daily", undefined)).toBeUndefined();
+    expect(computeTwr([], [], MAPPING, "daily", undefined)).toBeUndefined();
+  });
+});
+
+describe("readPriceHistory", () => {
+  it("reads dated prices per symbol in date order", () => {
+    const csv = "Symbol,Date,Price\nAAPL,15/02/2024,110\nAAPL,31/01/2024,100\nMSFT,,400\n";
+    const series = readPriceHistory(Buffer.from(csv), { ...DEFAULT_MAPPING_PROFILE, dateOrder: "eu" });
+
+    expect(Array.from(series.entries())).toEqual([
+      [
+        "AAPL",
+        [
+          { date: day("2024-01-31"), price: 100 },
+          { date: day("2024-02-15"), price: 110 },
+        ],
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,508 @@
+import * as XLSX from "xlsx";
+import type {
+  MappingProfile,
+  MonthlyReturn,
+  PriceSource,
+  TwrMethod,
+  VintageTwr,
+} from "@shared/schema";
+import { getHeaders, resolvePriceColumns, type ResolvedMapping } from "./columnMapping";
+import {
+  endOfMonthSerial,
+  formatExcelSerial,
+  normalizeDateColumn,
+  toExcelSerial,
+  usesDate1904,
+} from "./excelDates";
+import { readWorkbook } from "./sourceReader";
+import { readTrades } from "./taxLots";
+
+const METHOD_LABELS: Record<TwrMethod, string> = {
+  daily: "Daily (revalued at every cash flow)",
+  monthly: "Monthly (Modified Dietz)",
+};
+
+const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  history: "Price history upload",
+  marks: "Interpolated from trade prices and unrealized marks",
+};
+
+// Header row of the monthly table; the detail table follows it
+const MONTHS_HEADER_ROW = 5;
+
+interface PricePoint {
+  date: number;
+  price: number;
+}
+
+// Dated prices per symbol, each series in date order
+export type PriceSeries = Map<string, PricePoint[]>;
+
+// A span between two valuation points. The end value is the portfolio
+// value after the end date's flows less those flows, so trades and
+// dividends on the end date count toward the span's return.
+interface SubPeriod {
+  start: number;
+  end: number;
+  startValue: number;
+  endValue: number;
+  netFlow: number;
+}
+
+// A dated external flow: BUYs add capital, SELLs and dividends take it out
+interface ExternalFlow {
+  date: number;
+  amount: number;
+}
+
+export interface VintageTwrData {
+  method: TwrMethod;
+  priceSource: PriceSource;
+  // Daily: sub-periods between valuation points. Monthly: one per month.
+  periods: SubPeriod[];
+  // Net external flow per date, used for the Modified Dietz weights
+  flows: ExternalFlow[];
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function addPoint(series: PriceSeries, symbol: string, date: number, price: number) {
+  series.set(symbol, [...(series.get(symbol) ?? []), { date: Math.floor(date), price }]);
+}
+
+function sortSeries(series: PriceSeries): PriceSeries {
+  series.forEach((points) => points.sort((a, b) => a.date - b.date));
+  return series;
+}
+
+/**
+ * Read a price history upload (first sheet, header on the first row) using
+ * the profile's price columns and date order. Rows without a symbol, date
+ * or price are skipped.
+ */
+export function readPriceHistory(buffer: Buffer, profile: MappingProfile): PriceSeries {
+  const workbook = readWorkbook(buffer);
+  const rows: any[] = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
+  const columns = resolvePriceColumns(profile, getHeaders(rows));
+  const series: PriceSeries = new Map();
+  normalizeDateColumn(rows, columns.date, profile.dateOrder ?? "us", usesDate1904(workbook));
+
+  for (const row of rows) {
+    const symbol = String(row[columns.symbol] ?? "").trim();
+    const date = toExcelSerial(row[columns.date]);
+    const price = toNumber(row[columns.price]);
+    if (symbol && date !== undefined && price !== undefined) {
+      addPoint(series, symbol, date, price);
+    }
+  }
+  return sortSeries(series);
+}
+
+/**
+ * Price marks from the vintage itself: every trade's per-share value and
+ * every unrealized mark price (or market value over quantity)
+ */
+function collectMarks(
+  realizedRows: any[],
+  unrealizedRows: any[],
+  mapping: ResolvedMapping
+): PriceSeries {
+  const series: PriceSeries = new Map();
+  if (mapping.realized.quantity) {
+    for (const trade of readTrades(realizedRows, mapping)) {
+      addPoint(series, trade.symbol, trade.date, trade.perShare);
+    }
+  }
+
+  const { symbol, date, quantity, price, marketValue } = mapping.unrealized;
+  for (const row of unrealizedRows) {
+    const name = String(row[symbol!] ?? "").trim();
+    const asOf = date ? toExcelSerial(row[date]) : undefined;
+    const mark = price ? toNumber(row[price]) : undefined;
+    const value = marketValue ? toNumber(row[marketValue]) : undefined;
+    const shares = quantity ? toNumber(row[quantity]) : undefined;
+    const perShare = mark ?? (value !== undefined && shares ? value / shares : undefined);
+    if (name && asOf !== undefined && perShare !== undefined) {
+      addPoint(series, name, asOf, perShare);
+    }
+  }
+  return sortSeries(series);
+}
+
+// Latest price on or before the date; undefined before the history starts
+function priceFromHistory(points: PricePoint[], date: number): number | undefined {
+  let price: number | undefined;
+  for (const point of points) {
+    if (point.date > date) break;
+    price = point.price;
+  }
+  return price;
+}
+
+// Linear interpolation between the marks around the date, flat outside them
+function interpolatePrice(points: PricePoint[], date: number): number {
+  if (date <= points[0].date) return points[0].price;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const next = points[i];
+    if (date <= next.date) {
+      if (next.date === previous.date) return next.price;
+      const share = (date - previous.date) / (next.date - previous.date);
+      return previous.price + share * (next.price - previous.price);
+    }
+  }
+  return points[points.length - 1].price;
+}
+
+function monthKey(serial: number): string {
+  return formatExcelSerial(serial).slice(0, 7);
+}
+
+/**
+ * Build a vintage's time-weighted return sub-periods. Holdings come from
+ * the realized trades and are valued with the price history from its first
+ * date for a symbol, otherwise with marks interpolated from trade prices
+ * and unrealized marks. Valuation points are every flow date, every month end
+ * and the as-of date. Undefined when the vintage has no dated trades.
+ */
+export function computeTwr(
+  realizedRows: any[],
+  unrealizedRows: any[],
+  mapping: ResolvedMapping,
+  method: TwrMethod,
+  asOf: number | undefined,
+  priceHistory?: PriceSeries
+): VintageTwrData | undefined {
+  if (!mapping.realized.quantity) return undefined;
+  const trades = readTrades(realizedRows, mapping).map((trade) => ({
+    ...trade,
+    date: Math.floor(trade.date),
+  }));
+  if (trades.length === 0) return undefined;
+
+  const flowByDate = new Map<number, number>();
+  const addFlow = (date: number, amount: number) =>
+    flowByDate.set(date, (flowByDate.get(date) ?? 0) + amount);
+  for (const trade of trades) {
+    addFlow(trade.date, (trade.isBuy ? 1 : -1) * trade.quantity * trade.perShare);
+  }
+
+  const { symbol, tradeDate, side, amount } = mapping.realized;
+  const dividend = mapping.dividendValue.trim().toLowerCase();
+  for (const row of realizedRows) {
+    const date = toExcelSerial(row[tradeDate!]);
+    const value = toNumber(row[amount!]);
+    const direction = String(row[side!] ?? "").trim().toLowerCase();
+    if (direction === dividend && String(row[symbol!] ?? "").trim() && date !== undefined && value !== undefined) {
+      addFlow(Math.floor(date), -Math.abs(value));
+    }
+  }
+
+  const marks = collectMarks(realizedRows, unrealizedRows, mapping);
+  const priceAt = (name: string, date: number) => {
+    const history = priceHistory?.get(name);
+    const price = history && priceFromHistory(history, date);
+    if (price !== undefined) return price;
+    const points = marks.get(name);
+    return points?.length ? interpolatePrice(points, date) : 0;
+  };
+
+  const flowDates = Array.from(flowByDate.keys());
+  const start = Math.min(...flowDates);
+  const end = Math.max(asOf !== undefined ? Math.floor(asOf) : start, ...flowDates);
+
+  const points = new Set([...flowDates, end]);
+  for (let date = endOfMonthSerial(start); date < end; date = endOfMonthSerial(date + 1)) {
+    points.add(date);
+  }
+  const sortedPoints = Array.from(points).sort((a, b) => a - b);
+
+  // Portfolio value after each point's trades
+  const holdings = new Map<string, number>();
+  const tradeQueue = trades.slice().sort((a, b) => a.date - b.date);
+  let next = 0;
+  const valueAfter = new Map<number, number>();
+  for (const date of sortedPoints) {
+    while (next < tradeQueue.length && tradeQueue[next].date <= date) {
+      const trade = tradeQueue[next++];
+      const change = (trade.isBuy ? 1 : -1) * trade.quantity;
+      holdings.set(trade.symbol, (holdings.get(trade.symbol) ?? 0) + change);
+    }
+    let value = 0;
+    holdings.forEach((shares, name) => {
+      if (shares !== 0) value += shares * priceAt(name, date);
+    });
+    valueAfter.set(date, value);
+  }
+
+  const flows = Array.from(flowByDate.entries())
+    .map(([date, amount]) => ({ date, amount }))
+    .sort((a, b) => a.date - b.date);
+  const periods: SubPeriod[] = [];
+
+  if (method === "daily") {
+    for (let i = 1; i < sortedPoints.length; i++) {
+      const date = sortedPoints[i];
+      const netFlow = flowByDate.get(date) ?? 0;
+      periods.push({
+        start: sortedPoints[i - 1],
+        end: date,
+        startValue: valueAfter.get(sortedPoints[i - 1])!,
+        endValue: valueAfter.get(date)! - netFlow,
+        netFlow,
+      });
+    }
+  } else {
+    // One period per month: from the first trade date or the previous
+    // month end to this month end or the as-of date
+    const boundaries = sortedPoints.filter((date) => date === start || date === end || date === endOfMonthSerial(date));
+    for (let i = 1; i < boundaries.length; i++) {
+      const from = boundaries[i - 1];
+      const to = boundaries[i];
+      const netFlow = flows
+        .filter((flow) => flow.date > from && flow.date <= to)
+        .reduce((total, flow) => total + flow.amount, 0);
+      periods.push({
+        start: from,
+        end: to,
+        startValue: valueAfter.get(from)!,
+        endValue: valueAfter.get(to)! - netFlow,
+        netFlow,
+      });
+    }
+  }
+
+  return {
+    method,
+    priceSource: priceHistory && priceHistory.size > 0 ? "history" : "marks",
+    periods,
+    flows,
+  };
+}
+
+// Modified Dietz weight of a flow: the share of the period still to run
+function dietzWeight(date: number, period: SubPeriod): number {
+  return (period.end - date) / (period.end - period.start);
+}
+
+function weightedFlow(data: VintageTwrData, period: SubPeriod): number {
+  return data.flows
+    .filter((flow) => flow.date > period.start && flow.date <= period.end)
+    .reduce((total, flow) => total + flow.amount * dietzWeight(flow.date, period), 0);
+}
+
+// Return of a period, or undefined when nothing was invested through it
+function periodReturn(data: VintageTwrData, period: SubPeriod): number | undefined {
+  if (data.method === "daily") {
+    return period.startValue === 0 ? undefined : period.endValue / period.startValue - 1;
+  }
+  // Modified Dietz: gain over the start value plus time-weighted flows
+  const base = period.startValue + weightedFlow(data, period);
+  if (base === 0) return undefined;
+  return (period.endValue - period.startValue) / base;
+}
+
+/**
+ * Link the periods into calendar-month returns and the cumulative return
+ * through each month end
+ */
+export function summarizeTwr(data: VintageTwrData): VintageTwr {
+  const months: MonthlyReturn[] = [];
+  let cumulative: number | null = null;
+
+  for (const period of data.periods) {
+    const month = monthKey(period.end);
+    let entry = months[months.length - 1];
+    if (!entry || entry.month !== month) {
+      entry = { month, return: null, cumulative };
+      months.push(entry);
+    }
+
+    const rate = periodReturn(data, period);
+    if (rate === undefined) continue;
+    entry.return = (1 + (entry.return ?? 0)) * (1 + rate) - 1;
+    cumulative = (1 + (cumulative ?? 0)) * (1 + rate) - 1;
+    entry.cumulative = cumulative;
+  }
+
+  return { method: data.method, priceSource: data.priceSource, cumulative, months };
+}
+
+function dateCell(serial: number): XLSX.CellObject {
+  return { v: serial, t: "n", z: "yyyy-mm-dd" };
+}
+
+function moneyCell(value: number, formula?: string): XLSX.CellObject {
+  return formula ? { f: formula, v: value, t: "n", z: "0.00" } : { v: value, t: "n", z: "0.00" };
+}
+
+// Percentage formula cell, blank where the return is undefined
+function rateCell(formula: string, value: number | null | undefined): XLSX.CellObject {
+  return value === null || value === undefined
+    ? { f: formula, t: "s", v: "" }
+    : { f: formula, t: "n", v: value, z: "0.00%" };
+}
+
+function setHeaders(sheet: XLSX.WorkSheet, row: number, headers: string[]) {
+  headers.forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: row - 1, c })] = { v: header, t: "s" };
+  });
+}
+
+// Cumulative return through a month, chained from the row above
+function cumulativeFormula(returnColumn: string, column: string, r: number, first: boolean): string {
+  const rate = `${returnColumn}${r}`;
+  if (first) return `IF(${rate}="","",${rate})`;
+  const previous = `${column}${r - 1}`;
+  return `IF(${rate}="",${previous},IF(${previous}="",${rate},(1+${previous})*(1+${rate})-1))`;
+}
+
+/**
+ * Build the Time-Weighted Return sheet: the method, price source and
+ * cumulative return on top, then the monthly returns and the detail they
+ * are linked from. With the daily method each month compounds the growth
+ * of its sub-periods; with the monthly method each month is a Modified
+ * Dietz return over the dated flows listed below it.
+ */
+export function buildTwrSheet(data: VintageTwrData | undefined): XLSX.WorkSheet {
+  if (!data || data.periods.length === 0) {
+    const sheet = XLSX.utils.aoa_to_sheet([["No dated trades; time-weighted return not computed"]]);
+    sheet["!cols"] = [{ wch: 50 }];
+    return sheet;
+  }
+
+  const summary = summarizeTwr(data);
+  const { months } = summary;
+  const sheet: XLSX.WorkSheet = {};
+  sheet["A1"] = { v: "Method", t: "s" };
+  sheet["B1"] = { v: METHOD_LABELS[data.method], t: "s" };
+  sheet["A2"] = { v: "Price source", t: "s" };
+  sheet["B2"] = { v: PRICE_SOURCE_LABELS[data.priceSource], t: "s" };
+
+  const firstMonth = MONTHS_HEADER_ROW + 1;
+  const lastMonth = MONTHS_HEADER_ROW + months.length;
+  const detailHeader = lastMonth + 2;
+  const monthRow = new Map(months.map((entry, index) => [entry.month, firstMonth + index]));
+  let lastRow: number;
+  let cumulativeColumn: string;
+
+  if (data.method === "daily") {
+    cumulativeColumn = "C";
+    setHeaders(sheet, MONTHS_HEADER_ROW, ["Month", "Return", "Cumulative"]);
+    setHeaders(sheet, detailHeader, [
+      "Month",
+      "Start Date",
+      "End Date",
+      "Start Value",
+      "End Value",
+      "Net Flow",
+      "Return",
+      "Growth",
+    ]);
+
+    const firstPeriod = detailHeader + 1;
+    lastRow = detailHeader + data.periods.length;
+    data.periods.forEach((period, index) => {
+      const r = firstPeriod + index;
+      const rate = periodReturn(data, period);
+      sheet[`A${r}`] = { v: monthKey(period.end), t: "s" };
+      sheet[`B${r}`] = dateCell(period.start);
+      sheet[`C${r}`] = dateCell(period.end);
+      sheet[`D${r}`] = moneyCell(period.startValue);
+      sheet[`E${r}`] = moneyCell(period.endValue);
+      sheet[`F${r}`] = moneyCell(period.netFlow);
+      sheet[`G${r}`] = rateCell(`IF(D${r}=0,"",E${r}/D${r}-1)`, rate);
+      sheet[`H${r}`] = { f: `IF(D${r}=0,1,E${r}/D${r})`, v: 1 + (rate ?? 0), t: "n", z: "0.000000" };
+    });
+
+    // Sub-periods are in date order, so each month's rows are contiguous
+    let start = firstPeriod;
+    months.forEach((entry, index) => {
+      const r = firstMonth + index;
+      const count = data.periods.filter((period) => monthKey(period.end) === entry.month).length;
+      const end = start + count - 1;
+      sheet[`A${r}`] = { v: entry.month, t: "s" };
+      sheet[`B${r}`] = rateCell(
+        `IF(COUNT(G${start}:G${end})=0,"",PRODUCT(H${start}:H${end})-1)`,
+        entry.return
+      );
+      start = end + 1;
+    });
+  } else {
+    cumulativeColumn = "I";
+    setHeaders(sheet, MONTHS_HEADER_ROW, [
+      "Month",
+      "Start Date",
+      "End Date",
+      "Start Value",
+      "End Value",
+      "Net Flow",
+      "Weighted Flow",
+      "Return",
+      "Cumulative",
+    ]);
+    setHeaders(sheet, detailHeader, ["Date", "Month", "Net Flow", "Weight", "Weighted Flow"]);
+
+    // Flows on the first trade date are already in the first start value
+    const flows = data.flows.filter((flow) => flow.date > data.periods[0].start);
+    const firstFlow = detailHeader + 1;
+    lastRow = detailHeader + Math.max(flows.length, 1);
+    const range = (column: string) => `$${column}$${firstFlow}:$${column}$${lastRow}`;
+
+    flows.forEach((flow, index) => {
+      const r = firstFlow + index;
+      const month = monthKey(flow.date);
+      const period = data.periods.find((candidate) => monthKey(candidate.end) === month)!;
+      const m = monthRow.get(month)!;
+      const weight = dietzWeight(flow.date, period);
+      sheet[`A${r}`] = dateCell(flow.date);
+      sheet[`B${r}`] = { v: month, t: "s" };
+      sheet[`C${r}`] = moneyCell(flow.amount);
+      sheet[`D${r}`] = { f: `($C$${m}-A${r})/($C$${m}-$B$${m})`, v: weight, t: "n", z: "0.0000" };
+      sheet[`E${r}`] = moneyCell(flow.amount * weight, `C${r}*D${r}`);
+    });
+    if (flows.length === 0) {
+      sheet[`A${firstFlow}`] = { v: "No flows after the first trade date", t: "s" };
+    }
+
+    data.periods.forEach((period, index) => {
+      const r = firstMonth + index;
+      sheet[`A${r}`] = { v: months[index].month, t: "s" };
+      sheet[`B${r}`] = dateCell(period.start);
+      sheet[`C${r}`] = dateCell(period.end);
+      sheet[`D${r}`] = moneyCell(period.startValue);
+      sheet[`E${r}`] = moneyCell(period.endValue + period.netFlow);
+      sheet[`F${r}`] = moneyCell(period.netFlow, `SUMIFS(${range("C")},${range("B")},A${r})`);
+      sheet[`G${r}`] = moneyCell(weightedFlow(data, period), `SUMIFS(${range("E")},${range("B")},A${r})`);
+      sheet[`H${r}`] = rateCell(`IF(D${r}+G${r}=0,"",(E${r}-D${r}-F${r})/(D${r}+G${r}))`, months[index].return);
+    });
+  }
+
+  const returnColumn = data.method === "daily" ? "B" : "H";
+  months.forEach((entry, index) => {
+    const r = firstMonth + index;
+    sheet[`${cumulativeColumn}${r}`] = rateCell(
+      cumulativeFormula(returnColumn, cumulativeColumn, r, index === 0),
+      entry.cumulative
+    );
+  });
+
+  sheet["A3"] = { v: "Cumulative TWR", t: "s" };
+  sheet["B3"] = rateCell(`${cumulativeColumn}${lastMonth}`, summary.cumulative);
+
+  sheet["!ref"] = `A1:${data.method === "daily" ? "H" : "I"}${lastRow}`;
+  sheet["!cols"] = [
+    { wch: 16 },
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 12 },
+    { wch: 12 },
+  ];
+  return sheet;
+}
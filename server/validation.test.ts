@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MAPPING_PROFILE, resolveMapping } from "./columnMapping";
+import { generateValidationReport, validateSources } from "./validation";
+import { loadPackage, worksheetPath } from "./xlsxPackage";
+
+const REALIZED_HEADERS = ["Symbol", "TradeDate", "Buy/Sell", "Amount", "Vintage", "Quantity"];
+const UNREALIZED_HEADERS = ["Symbol", "Vintage", "Net Quantity"];
+const MAPPING = resolveMapping(DEFAULT_MAPPING_PROFILE, REALIZED_HEADERS, UNREALIZED_HEADERS);
+
+const source = (rows: any[], headers: string[]) => ({
+  rows,
+  headers,
+  sheets: [{ sheetName: "Sheet1", headerRow: 1, rowCount: rows.length }],
+});
+
+const realizedRow = (values: Record<string, unknown>) => ({
+  Symbol: "AAPL",
+  TradeDate: 45296,
+  "Buy/Sell": "BUY",
+  Amount: -1000,
+  Vintage: "CQ1",
+  Quantity: 10,
+  ...values,
+});
+
+// Conditional formats of a report sheet as [sqref, dxf id] pairs
+async function highlights(report: Buffer, sheetName: string): Promise<[string, string][]> {
+  const zip = await loadPackage(report);
+  const xml = await zip.file(await worksheetPath(zip, sheetName))!.async("string");
+  return Array.from(
+    xml.matchAll(/<conditionalFormatting sqref="([^"]+)"><cfRule type="expression" dxfId="(\d+)"/g)
+  ).map((match) => [match[1], match[2]]);
+}
+
+describe("generateValidationReport", () => {
+  it("fills offending cells by severity, errors over warnings", async () => {
+    const result = validateSources(
+      source(
+        [
+          realizedRow({}),
+          realizedRow({ Symbol: "", "Buy/Sell": "HOLD" }),
+          realizedRow({ Quantity: "ten", Amount: "n/a" }),
+        ],
+        REALIZED_HEADERS
+      ),
+      source([{ Symbol: "AAPL", Vintage: "CQ1", "Net Quantity": 10 }], UNREALIZED_HEADERS),
+      MAPPING
+    );
+    const report = await generateValidationReport(result);
+
+    // Source Sheet and Source Row lead, so Symbol is column C
+    expect(await highlights(report, "Realized")).toEqual([
+      ["C2 F3", "0"],
+      ["E2 H3", "1"],
+    ]);
+    expect(await highlights(report, "Issues")).toEqual([]);
+  });
+
+  it("puts issues on columns missing from the copy on the Source Row cell", async () => {
+    const headers = REALIZED_HEADERS.filter((header) => header !== "Amount");
+    const { Amount, ...row } = realizedRow({});
+    const result = validateSources(
+      source([row], headers),
+      source([], UNREALIZED_HEADERS),
+      MAPPING
+    );
+    const report = await generateValidationReport(result);
+
+    expect(result.issues).toMatchObject([{ column: "Amount" }]);
+    expect(await highlights(report, "Realized")).toEqual([["B2", "0"]]);
+  });
+});
@@ -0,0 +1,298 @@
+import * as XLSX from "xlsx";
+import { z } from "zod";
+import type {
+  SourceFileKind,
+  SourceSheet,
+  ValidationIssue,
+  ValidationSeverity,
+  ValidationSummary,
+} from "@shared/schema";
+import type { ResolvedMapping } from "./columnMapping";
+import { locateRows } from "./headerDetection";
+import { toExcelSerial } from "./excelDates";
+import {
+  addDifferentialFormat,
+  insertWorksheetElement,
+  loadPackage,
+  savePackage,
+  worksheetPath,
+} from "./xlsxPackage";
+
+// Issues returned inline in API responses; the report workbook has them all
+const SUMMARY_ISSUE_LIMIT = 100;
+
+export const VALIDATION_REPORT_NAME = "validation";
+export const VALIDATION_REPORT_FILENAME = "Validation_Issues.xlsx";
+
+// Fills of offending cells, Excel's default bad and neutral highlights
+const SEVERITY_FORMATS: Record<ValidationSeverity, string> = {
+  error:
+    '<dxf><font><color rgb="FF9C0006"/></font>' +
+    '<fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf>',
+  warning:
+    '<dxf><font><color rgb="FF9C5700"/></font>' +
+    '<fill><patternFill><bgColor rgb="FFFFEB9C"/></patternFill></fill></dxf>',
+};
+
+// Rows of one source file as read by ExcelProcessor
+export interface ParsedSource {
+  rows: any[];
+  sheets: SourceSheet[];
+  headers: string[];
+}
+
+// A source row with at least one issue
+interface FlaggedRow {
+  sheetName: string;
+  row: number;
+  values: Record<string, unknown>;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  flaggedRows: Record<SourceFileKind, FlaggedRow[]>;
+  headers: Record<SourceFileKind, string[]>;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+function isNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * A column rule: the value must satisfy `check`, otherwise an issue with the
+ * given message and severity is raised. Optional columns accept blanks.
+ */
+function rule(
+  check: (value: unknown) => boolean,
+  message: string,
+  severity: ValidationSeverity,
+  optional = false
+): z.ZodTypeAny {
+  return z.unknown().superRefine((value, ctx) => {
+    if (optional && isBlank(value)) return;
+    if (!check(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, params: { severity } });
+    }
+  });
+}
+
+const present = (value: unknown) => !isBlank(value);
+
+/**
+ * Build the row schema for one input kind from the resolved column mapping.
+ * Columns the profile maps but the file lacks are skipped.
+ */
+function rowSchema(kind: SourceFileKind, mapping: ResolvedMapping) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  const add = (column: string | undefined, schema: z.ZodTypeAny) => {
+    if (column) shape[column] = schema;
+  };
+  // Excel stores dates as serial numbers; text dates must parse in the
+  // profile's day/month order
+  const isDate = (value: unknown) => toExcelSerial(value, mapping.dateOrder) !== undefined;
+
+  if (kind === "realized") {
+    const columns = mapping.realized;
+    const sides = [mapping.buyValue, mapping.sellValue, mapping.dividendValue].map((side) =>
+      side.trim().toLowerCase()
+    );
+
+    add(
+      columns.vintage,
+      rule(present, "Vintage is blank; the row is left out of every vintage workbook", "error")
+    );
+    add(columns.symbol, rule(present, "Symbol is blank", "error"));
+    add(columns.tradeDate, rule(isDate, "Trade date is missing or not a date", "error"));
+    add(columns.amount, rule(isNumber, "Amount is missing or not a number", "error"));
+    add(
+      columns.side,
+      rule(
+        (value) => sides.includes(String(value ?? "").trim().toLowerCase()),
+        `Side is not '${mapping.buyValue}', '${mapping.sellValue}' or '${mapping.dividendValue}'`,
+        "warning"
+      )
+    );
+    add(columns.quantity, rule(isNumber, "Quantity is not a number", "warning", true));
+    add(columns.price, rule(isNumber, "Price is not a number", "warning", true));
+  } else {
+    const columns = mapping.unrealized;
+
+    add(
+      columns.vintage,
+      rule(present, "Vintage is blank; the row is left out of every vintage workbook", "error")
+    );
+    add(columns.symbol, rule(present, "Symbol is blank", "warning"));
+    add(columns.date, rule(isDate, "Date is not a date", "warning", true));
+    add(columns.quantity, rule(isNumber, "Quantity is not a number", "warning", true));
+    add(columns.price, rule(isNumber, "Price is not a number", "warning", true));
+    add(columns.marketValue, rule(isNumber, "Market value is not a number", "warning", true));
+  }
+
+  return z.object(shape);
+}
+
+/**
+ * Check each row of a source file against its kind's schema. Rows are
+ * located by sheet and 1-based sheet row number.
+ */
+function validateSource(
+  kind: SourceFileKind,
+  source: ParsedSource,
+  mapping: ResolvedMapping
+): FlaggedRow[] {
+  const schema = rowSchema(kind, mapping);
+  const flagged: FlaggedRow[] = [];
+  const locations = locateRows(source.rows, source.sheets);
+
+  source.rows.forEach((values, index) => {
+    const result = schema.safeParse(values);
+    if (result.success) return;
+
+    const { sheetName, row } = locations[index];
+    flagged.push({
+      sheetName,
+      row,
+      values,
+      issues: result.error.issues.map((issue) => {
+        const column = String(issue.path[0]);
+        const value = values[column];
+        return {
+          severity: ((issue as z.ZodCustomIssue).params?.severity ?? "error") as ValidationSeverity,
+          kind,
+          sheetName,
+          row,
+          column,
+          value: isBlank(value) ? "" : String(value),
+          message: issue.message,
+        };
+      }),
+    });
+  });
+
+  return flagged;
+}
+
+/**
+ * Validate both source files against the resolved column mapping
+ */
+export function validateSources(
+  realized: ParsedSource,
+  unrealized: ParsedSource,
+  mapping: ResolvedMapping
+): ValidationResult {
+  const flaggedRows = {
+    realized: validateSource("realized", realized, mapping),
+    unrealized: validateSource("unrealized", unrealized, mapping),
+  };
+
+  return {
+    issues: [...flaggedRows.realized, ...flaggedRows.unrealized].flatMap((row) => row.issues),
+    flaggedRows,
+    headers: { realized: realized.headers, unrealized: unrealized.headers },
+  };
+}
+
+export function summarizeValidation(result: ValidationResult): ValidationSummary {
+  return {
+    errorCount: result.issues.filter((issue) => issue.severity === "error").length,
+    warningCount: result.issues.filter((issue) => issue.severity === "warning").length,
+    issues: result.issues.slice(0, SUMMARY_ISSUE_LIMIT),
+    truncated: result.issues.length > SUMMARY_ISSUE_LIMIT,
+  };
+}
+
+/**
+ * Build the "Validation Issues" workbook: an Issues sheet listing every
+ * problem, plus a copy of each file's offending rows with every offending
+ * cell filled by severity and commented. An issue on a column the copy does
+ * not have is put on the row's Source Row cell.
+ */
+export async function generateValidationReport(result: ValidationResult): Promise<Buffer> {
+  const workbook = XLSX.utils.book_new();
+  // Offending cells per sheet and severity; a cell with an error is not
+  // also listed as a warning
+  const highlights: { sheetName: string; cells: Record<ValidationSeverity, string[]> }[] = [];
+
+  const issuesSheet = XLSX.utils.json_to_sheet(
+    result.issues.map((issue) => ({
+      Severity: issue.severity,
+      File: issue.kind === "realized" ? "Realized" : "Unrealized",
+      Sheet: issue.sheetName,
+      Row: issue.row,
+      Column: issue.column,
+      Value: issue.value,
+      Message: issue.message,
+    })),
+    { header: ["Severity", "File", "Sheet", "Row", "Column", "Value", "Message"] }
+  );
+  issuesSheet["!cols"] = [
+    { wch: 10 },
+    { wch: 12 },
+    { wch: 20 },
+    { wch: 8 },
+    { wch: 20 },
+    { wch: 20 },
+    { wch: 60 },
+  ];
+  XLSX.utils.book_append_sheet(workbook, issuesSheet, "Issues");
+
+  for (const kind of ["realized", "unrealized"] as const) {
+    const rows = result.flaggedRows[kind];
+    if (rows.length === 0) continue;
+
+    // Lead with the row's location so it can be found in the source file
+    const headers = ["Source Sheet", "Source Row", ...result.headers[kind]];
+    const sheet = XLSX.utils.json_to_sheet(
+      rows.map((row) => ({ "Source Sheet": row.sheetName, "Source Row": row.row, ...row.values })),
+      // A copy, as SheetJS appends any other keys of the rows to the list
+      { header: [...headers] }
+    );
+
+    const severities = new Map<string, ValidationSeverity>();
+    rows.forEach((row, index) => {
+      for (const issue of row.issues) {
+        const column = headers.indexOf(issue.column);
+        const address = XLSX.utils.encode_cell({
+          r: index + 1,
+          c: column < 0 ? headers.indexOf("Source Row") : column,
+        });
+        const cell = (sheet[address] ??= { t: "z" });
+        cell.c = [...(cell.c ?? []), { a: "Validation", t: `${issue.severity}: ${issue.message}` }];
+        if (severities.get(address) !== "error") severities.set(address, issue.severity);
+      }
+    });
+
+    const sheetName = kind === "realized" ? "Realized" : "Unrealized";
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+    const cells: Record<ValidationSeverity, string[]> = { error: [], warning: [] };
+    severities.forEach((severity, address) => cells[severity].push(address));
+    highlights.push({ sheetName, cells });
+  }
+
+  // SheetJS cannot write cell fills, so they are conditional formats that
+  // always apply, added to the written package
+  const workbookPackage = await loadPackage(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+  const severityOrder: ValidationSeverity[] = ["error", "warning"];
+  for (const severity of severityOrder) {
+    const targets = highlights.filter(({ cells }) => cells[severity].length > 0);
+    if (targets.length === 0) continue;
+
+    const dxfId = await addDifferentialFormat(workbookPackage, SEVERITY_FORMATS[severity]);
+    for (const { sheetName, cells } of targets) {
+      await insertWorksheetElement(
+        workbookPackage,
+        await worksheetPath(workbookPackage, sheetName),
+        `<conditionalFormatting sqref="${cells[severity].join(" ")}">` +
+          `<cfRule type="expression" dxfId="${dxfId}" priority="${severityOrder.indexOf(severity) + 1}">` +
+          `<formula>TRUE</formula></cfRule>` +
+          `</conditionalFormatting>`
+      );
+    }
+  }
+  return savePackage(workbookPackage);
+}
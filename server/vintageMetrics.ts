@@ -0,0 +1,186 @@
+import * as XLSX from "xlsx";
+import type { VintageMetrics } from "@shared/schema";
+import { excelString, sheetRef, tableColumn, type ResolvedMapping } from "./columnMapping";
+import type { VintageCashFlows } from "./returns";
+
+// Header row of the per-symbol table, below the vintage metrics
+const SYMBOL_HEADER_ROW = 11;
+
+const MULTIPLE_FORMAT = '0.00"x"';
+
+// Capital flows of one symbol in a vintage
+export interface SymbolCapital {
+  symbol: string;
+  paidIn: number;
+  distributions: number;
+  residualValue: number;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function multiple(value: number, paidIn: number): number | null {
+  return paidIn === 0 ? null : value / paidIn;
+}
+
+/**
+ * Paid-in capital, distributions and residual value per symbol. Amounts are
+ * summed per side and taken as absolute values, like the sheet's formulas;
+ * residual value is the market value flow from the vintage's cash flows.
+ */
+export function collectCapital(
+  realizedRows: any[],
+  mapping: ResolvedMapping,
+  cashFlows: VintageCashFlows | undefined
+): SymbolCapital[] {
+  const { symbol, side, amount } = mapping.realized;
+  const sides = {
+    buy: mapping.buyValue.trim().toLowerCase(),
+    sell: mapping.sellValue.trim().toLowerCase(),
+    dividend: mapping.dividendValue.trim().toLowerCase(),
+  };
+  type Totals = { buy: number; sell: number; dividend: number; residual: number };
+  const totals = new Map<string, Totals>();
+  const totalsFor = (name: string) => {
+    if (!totals.has(name)) totals.set(name, { buy: 0, sell: 0, dividend: 0, residual: 0 });
+    return totals.get(name)!;
+  };
+
+  for (const row of realizedRows) {
+    const name = String(row[symbol!] ?? "").trim();
+    const value = toNumber(row[amount!]);
+    const direction = String(row[side!] ?? "").trim().toLowerCase();
+    if (!name || value === undefined) continue;
+
+    if (direction === sides.buy) totalsFor(name).buy += value;
+    else if (direction === sides.sell) totalsFor(name).sell += value;
+    else if (direction === sides.dividend) totalsFor(name).dividend += value;
+  }
+
+  for (const flow of cashFlows?.flows ?? []) {
+    if (flow.type === "Market value") totalsFor(flow.symbol).residual += flow.amount;
+  }
+
+  return Array.from(totals.keys())
+    .sort()
+    .map((name) => {
+      const { buy, sell, dividend, residual } = totals.get(name)!;
+      return {
+        symbol: name,
+        paidIn: Math.abs(buy),
+        distributions: Math.abs(sell) + Math.abs(dividend),
+        residualValue: residual,
+      };
+    });
+}
+
+export function summarizeVintageMetrics(capital: SymbolCapital[]): VintageMetrics {
+  const paidIn = capital.reduce((total, line) => total + line.paidIn, 0);
+  const distributions = capital.reduce((total, line) => total + line.distributions, 0);
+  const residualValue = capital.reduce((total, line) => total + line.residualValue, 0);
+  const tvpi = multiple(distributions + residualValue, paidIn);
+
+  return {
+    paidIn,
+    distributions,
+    residualValue,
+    dpi: multiple(distributions, paidIn),
+    rvpi: multiple(residualValue, paidIn),
+    tvpi,
+    // No fees or expenses appear in the trade data, so the gross multiple
+    // on invested capital equals TVPI at the vintage level
+    moic: tvpi,
+  };
+}
+
+// Multiple formula cell, blank where there is no paid-in capital
+function multipleCell(formula: string, value: number | null): XLSX.CellObject {
+  return value === null
+    ? { f: formula, t: "s", v: "" }
+    : { f: formula, t: "n", v: value, z: MULTIPLE_FORMAT };
+}
+
+/**
+ * Build the Vintage Summary sheet: the vintage's paid-in capital,
+ * distributions, residual value and multiples on top, then the same per
+ * symbol. Every figure is a formula: per-symbol capital sums the Realized
+ * sheet by side and the Returns sheet's market value flows, and the vintage
+ * figures add up the symbol table.
+ */
+export function buildVintageSummarySheet(
+  capital: SymbolCapital[],
+  realizedHeaders: string[],
+  mapping: ResolvedMapping
+): XLSX.WorkSheet {
+  const metrics = summarizeVintageMetrics(capital);
+  const sheet: XLSX.WorkSheet = {};
+
+  const firstRow = SYMBOL_HEADER_ROW + 1;
+  const lastRow = SYMBOL_HEADER_ROW + Math.max(capital.length, 1);
+  const total = (column: string) => `SUM(${column}${firstRow}:${column}${lastRow})`;
+
+  sheet["A1"] = { v: "Metric", t: "s" };
+  sheet["B1"] = { v: "Value", t: "s" };
+  const money = (label: string, row: number, f: string, v: number) => {
+    sheet[`A${row}`] = { v: label, t: "s" };
+    sheet[`B${row}`] = { f, v, t: "n", z: "0.00" };
+  };
+  money("Paid-In Capital", 2, total("B"), metrics.paidIn);
+  money("Distributions", 3, total("C"), metrics.distributions);
+  money("Residual Value", 4, total("D"), metrics.residualValue);
+  money("Total Value", 5, "B3+B4", metrics.distributions + metrics.residualValue);
+
+  const multiples: [string, string, number | null][] = [
+    ["DPI", 'IF(B2=0,"",B3/B2)', metrics.dpi],
+    ["RVPI", 'IF(B2=0,"",B4/B2)', metrics.rvpi],
+    ["TVPI", 'IF(B2=0,"",B5/B2)', metrics.tvpi],
+    ["MOIC", 'IF(B2=0,"",B5/B2)', metrics.moic],
+  ];
+  multiples.forEach(([label, f, value], index) => {
+    sheet[`A${6 + index}`] = { v: label, t: "s" };
+    sheet[`B${6 + index}`] = multipleCell(f, value);
+  });
+
+  ["Symbol", "Paid-In Capital", "Distributions", "Residual Value", "MOIC"].forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: SYMBOL_HEADER_ROW - 1, c })] = { v: header, t: "s" };
+  });
+
+  const { realized } = mapping;
+  const symbolRange = tableColumn("Realized", realizedHeaders, realized.symbol!);
+  const sideRange = tableColumn("Realized", realizedHeaders, realized.side!);
+  const amountRange = tableColumn("Realized", realizedHeaders, realized.amount!);
+  const sideTotal = (row: number, value: string) =>
+    `ABS(SUMIFS(${amountRange},${symbolRange},A${row},${sideRange},${excelString(value)}))`;
+  const returns = sheetRef("Returns");
+
+  if (capital.length === 0) {
+    sheet[`A${firstRow}`] = { v: "No realized or unrealized capital", t: "s" };
+  }
+
+  capital.forEach((line, index) => {
+    const r = firstRow + index;
+    sheet[`A${r}`] = { v: line.symbol, t: "s" };
+    sheet[`B${r}`] = { f: sideTotal(r, mapping.buyValue), v: line.paidIn, t: "n", z: "0.00" };
+    sheet[`C${r}`] = {
+      f: `${sideTotal(r, mapping.sellValue)}+${sideTotal(r, mapping.dividendValue)}`,
+      v: line.distributions,
+      t: "n",
+      z: "0.00",
+    };
+    sheet[`D${r}`] = {
+      f: `SUMIFS(${returns}!C:C,${returns}!A:A,A${r},${returns}!D:D,"Market value")`,
+      v: line.residualValue,
+      t: "n",
+      z: "0.00",
+    };
+    sheet[`E${r}`] = multipleCell(
+      `IF(B${r}=0,"",(C${r}+D${r})/B${r})`,
+      multiple(line.distributions + line.residualValue, line.paidIn)
+    );
+  });
+
+  sheet["!ref"] = `A1:E${lastRow}`;
+  sheet["!cols"] = [{ wch: 16 }, { wch: 16 }, { wch: 14 }, { wch: 15 }, { wch: 10 }];
+  return sheet;
+}
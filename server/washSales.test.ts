@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { classifyGains } from "./capitalGains";
+import { DEFAULT_MAPPING_PROFILE, resolveMapping } from "./columnMapping";
+import { parseDateText } from "./excelDates";
+import { matchLots } from "./taxLots";
+import { analyzeWashSales, applyWashSales } from "./washSales";
+
+const HEADERS = ["Symbol", "TradeDate", "Buy/Sell", "Amount", "Vintage", "Quantity", "Trade ID"];
+const MAPPING = resolveMapping(DEFAULT_MAPPING_PROFILE, HEADERS, [
+  "Symbol",
+  "Vintage",
+  "Net Quantity",
+  "Mark Price",
+]);
+
+function trade(
+  symbol: string,
+  date: string,
+  side: string,
+  quantity: number,
+  amount: number,
+  id: string,
+  vintage = "CQ1"
+) {
+  return {
+    Symbol: symbol,
+    TradeDate: parseDateText(date),
+    "Buy/Sell": side,
+    Amount: amount,
+    Vintage: vintage,
+    Quantity: quantity,
+    "Trade ID": id,
+  };
+}
+
+// AAPL is sold at a 200 loss and 3 of the 10 shares are bought back within
+// 30 days, disallowing 60; the MSFT loss of 80 has no replacement
+const ROWS = [
+  trade("MSFT", "2023-12-01", "BUY", 4, -400, "T0"),
+  trade("AAPL", "2024-01-05", "BUY", 10, -1000, "T1"),
+  trade("AAPL", "2024-02-01", "SELL", -10, 800, "T2"),
+  trade("MSFT", "2024-02-01", "SELL", -4, 320, "T3"),
+  trade("AAPL", "2024-02-20", "BUY", 3, -270, "T4"),
+];
+
+function adjustedLots(rows: any[]) {
+  const lots = matchLots(rows, MAPPING, "fifo");
+  const washSales = analyzeWashSales([{ vintageName: "CQ1", rows, lots }], MAPPING, "vintage");
+  return { lots, washSales, adjusted: applyWashSales("CQ1", lots, washSales)! };
+}
+
+const total = (values: (number | undefined)[]) =>
+  values.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+
+// Wash sales of one vintage's rows, keeping what identifies each replacement
+function washSalesOf(rows: any[]) {
+  const lots = matchLots(rows, MAPPING, "fifo");
+  return analyzeWashSales([{ vintageName: "CQ1", rows, lots }], MAPPING, "vintage")
+    .get("CQ1")!
+    .map(({ lot, quantity, loss, replacementRow }) => ({ lot, quantity, loss, replacementRow }));
+}
+
+describe("analyzeWashSales", () => {
+  // 10 shares bought at 100 and sold at 80 a month later
+  const LOSS = [
+    trade("AAPL", "2024-01-05", "BUY", 10, -1000, "T1"),
+    trade("AAPL", "2024-02-05", "SELL", -10, 800, "T2"),
+  ];
+
+  it("finds replacement BUYs up to 30 days before or after the sale", () => {
+    expect(washSalesOf([...LOSS, trade("AAPL", "2024-03-06", "BUY", 4, -360, "T3")])).toEqual([
+      { lot: "T1", quantity: 4, loss: -80, replacementRow: 2 },
+    ]);
+    expect(washSalesOf([...LOSS, trade("AAPL", "2024-03-07", "BUY", 4, -360, "T3")])).toEqual([]);
+    expect(washSalesOf([...LOSS, trade("MSFT", "2024-02-10", "BUY", 4, -360, "T3")])).toEqual([]);
+  });
+
+  it("never counts the lots the sale closes as its replacements", () => {
+    const rows = [
+      trade("AAPL", "2024-01-20", "BUY", 10, -1000, "T1"),
+      trade("AAPL", "2024-02-05", "SELL", -10, 800, "T2"),
+    ];
+    expect(washSalesOf(rows)).toEqual([]);
+  });
+
+  it("uses each replacement share once, earlier sales first", () => {
+    const rows = [
+      trade("AAPL", "2023-06-01", "BUY", 20, -2000, "T1"),
+      trade("AAPL", "2024-02-01", "SELL", -10, 900, "T2"),
+      trade("AAPL", "2024-02-10", "SELL", -10, 800, "T3"),
+      trade("AAPL", "2024-02-20", "BUY", 15, -1200, "T4"),
+    ];
+    expect(washSalesOf(rows)).toEqual([
+      { lot: "T1", quantity: 10, loss: -100, replacementRow: 3 },
+      { lot: "T1", quantity: 5, loss: -100, replacementRow: 3 },
+    ]);
+  });
+
+  it("looks for replacements in other vintages only with the 'all' scope", () => {
+    const replacement = [trade("AAPL", "2024-02-10", "BUY", 10, -900, "T3", "CQ2")];
+    const vintages = [
+      { vintageName: "CQ1", rows: LOSS, lots: matchLots(LOSS, MAPPING, "fifo") },
+      { vintageName: "CQ2", rows: replacement, lots: matchLots(replacement, MAPPING, "fifo") },
+    ];
+
+    expect(analyzeWashSales(vintages, MAPPING, "vintage").get("CQ1")).toEqual([]);
+    expect(analyzeWashSales(vintages, MAPPING, "all").get("CQ1")).toMatchObject([
+      { quantity: 10, loss: -200, replacementVintage: "CQ2", replacementRow: 0 },
+    ]);
+  });
+
+  it("maps a vintage without matched lots to undefined", () => {
+    const washSales = analyzeWashSales([{ vintageName: "CQ1", rows: LOSS }], MAPPING, "all");
+    expect(washSales.has("CQ1")).toBe(true);
+    expect(washSales.get("CQ1")).toBeUndefined();
+  });
+});
+
+describe("applyWashSales", () => {
+  it("adds the disallowed loss to the replacement lot's basis and holding period", () => {
+    const { adjusted } = adjustedLots(ROWS);
+    const replacement = adjusted.find((line) => line.lot === "T4")!;
+
+    expect(replacement).toMatchObject({ status: "open", quantity: 3, costBasis: 330, washSaleBasis: 60 });
+    // Held 27 days before the sale, so acquired 27 days before the BUY
+    expect(replacement.acquired).toBe(parseDateText("2024-01-24"));
+  });
+
+  it("adds the disallowed loss back to the gain of the loss sale", () => {
+    const { lots, adjusted } = adjustedLots(ROWS);
+    const sale = adjusted.find((line) => line.lot === "T1")!;
+
+    expect(sale).toMatchObject({ costBasis: 1000, proceeds: 800, adjustment: 60, gain: -140 });
+    expect(total(classifyGains(lots, 365).map((line) => line.gain))).toBe(-280);
+    expect(total(classifyGains(adjusted, 365).map((line) => line.gain))).toBe(-220);
+  });
+
+  it("splits a replacement lot only partly used to replace sold shares", () => {
+    const rows = [...ROWS.slice(0, 4), trade("AAPL", "2024-02-20", "BUY", 12, -1080, "T4")];
+    const { washSales, adjusted } = adjustedLots(rows);
+    const replacement = adjusted.filter((line) => line.lot === "T4");
+
+    expect(washSales.get("CQ1")).toMatchObject([{ quantity: 10, loss: -200 }]);
+    expect(replacement).toMatchObject([
+      { quantity: 10, costBasis: 1100, washSaleBasis: 200, acquired: parseDateText("2024-01-24") },
+      { quantity: 2, costBasis: 180, washSaleBasis: undefined, acquired: parseDateText("2024-02-20") },
+    ]);
+  });
+
+  it("adjusts each slice of a sale closing lots that share a trade id", () => {
+    const rows = [
+      trade("AAPL", "2024-01-05", "BUY", 5, -500, "T1"),
+      trade("AAPL", "2024-01-10", "BUY", 5, -450, "T1"),
+      trade("AAPL", "2024-02-01", "SELL", -10, 800, "T2"),
+      trade("AAPL", "2024-02-20", "BUY", 10, -900, "T3"),
+    ];
+    const { adjusted } = adjustedLots(rows);
+
+    expect(adjusted.filter((line) => line.lot === "T1")).toMatchObject([
+      { quantity: 5, adjustment: 100, gain: 0 },
+      { quantity: 5, adjustment: 50, gain: 0 },
+    ]);
+  });
+
+  it("moves the holding period of replacement shares that are sold later", () => {
+    const rows = [...ROWS, trade("AAPL", "2025-01-10", "SELL", -3, 360, "T5")];
+    const { adjusted } = adjustedLots(rows);
+    const replacement = classifyGains(adjusted, 365).find((line) => line.lot === "T4")!;
+
+    expect(replacement).toMatchObject({ costBasis: 330, gain: 30, holdingDays: 352, term: "Short-term" });
+  });
+
+  it("adjusts a replacement lot in another vintage", () => {
+    const sale = ROWS.slice(1, 3);
+    const replacement = [trade("AAPL", "2024-02-10", "BUY", 10, -900, "T4", "CQ2")];
+    const vintages = [
+      { vintageName: "CQ1", rows: sale, lots: matchLots(sale, MAPPING, "fifo") },
+      { vintageName: "CQ2", rows: replacement, lots: matchLots(replacement, MAPPING, "fifo") },
+    ];
+    const washSales = analyzeWashSales(vintages, MAPPING, "all");
+
+    expect(applyWashSales("CQ1", vintages[0].lots, washSales)).toMatchObject([{ gain: 0, adjustment: 200 }]);
+    expect(applyWashSales("CQ2", vintages[1].lots, washSales)).toMatchObject([
+      { status: "open", costBasis: 1100, acquired: parseDateText("2024-01-14") },
+    ]);
+  });
+
+  it("leaves lots without wash sales as they are", () => {
+    const rows = ROWS.slice(0, 4);
+    const { lots, adjusted } = adjustedLots(rows);
+
+    expect(adjusted).toEqual(lots);
+    expect(applyWashSales("CQ1", undefined, new Map())).toBeUndefined();
+  });
+});
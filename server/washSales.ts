@@ -0,0 +1,318 @@
+import * as XLSX from "xlsx";
+import type { WashSaleScope } from "@shared/schema";
+import type { ResolvedMapping } from "./columnMapping";
+import { readTrades, type LotLine, type Trade } from "./taxLots";
+
+// A BUY this many days before or after a loss sale makes it a wash sale
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+const SCOPE_LABELS: Record<WashSaleScope, string> = {
+  vintage: "Within vintage",
+  all: "Across all vintages",
+};
+
+// Share quantities closer to zero than this count as fully matched
+const QUANTITY_TOLERANCE = 1e-9;
+
+// Header row of the Wash Sales table; data starts on the row below
+const HEADER_ROW = 5;
+
+// Realized rows and matched lots of one vintage
+export interface WashSaleInput {
+  vintageName: string;
+  rows: any[];
+  lots?: LotLine[];
+}
+
+// The shares of a loss sale replaced by one BUY. Their share of the loss is
+// disallowed and added to the replacement shares' basis.
+export interface WashSaleLine {
+  symbol: string;
+  lot: string;
+  // Acquisition date of the sold lot, carried over to the replacement shares
+  acquired: number;
+  sold: number;
+  // Indexes into the sale vintage's realized rows of the sold lot's BUY and
+  // of the SELL, together identifying the sold lot slice
+  lotRow: number;
+  saleRow: number;
+  quantity: number;
+  loss: number;
+  replacementVintage: string;
+  // Index into the replacement vintage's realized rows
+  replacementRow: number;
+  replacementDate: number;
+  replacementCost: number;
+}
+
+interface Replacement {
+  vintageName: string;
+  trade: Trade;
+  // Shares not yet used to replace an earlier loss sale
+  available: number;
+}
+
+/**
+ * Find wash sales: closed lots sold at a loss with a BUY of the same symbol
+ * within 30 days before or after the sale. Each BUY share replaces at most
+ * one sold share, earlier sales taking replacements first, and the lots a
+ * sale closes never count as its own replacements.
+ *
+ * With the "vintage" scope replacements come from the sale's own vintage,
+ * with "all" from any vintage. Returns the lines per sale vintage; a
+ * vintage whose lots were not matched maps to undefined.
+ */
+export function analyzeWashSales(
+  vintages: WashSaleInput[],
+  mapping: ResolvedMapping,
+  scope: WashSaleScope
+): Map<string, WashSaleLine[] | undefined> {
+  const buys: Replacement[] = vintages
+    .flatMap(({ vintageName, rows }) =>
+      readTrades(rows, mapping)
+        .filter((trade) => trade.isBuy)
+        .map((trade) => ({ vintageName, trade, available: trade.quantity }))
+    )
+    .sort((a, b) => a.trade.date - b.trade.date);
+
+  const losses = vintages
+    .flatMap(({ vintageName, lots }) =>
+      (lots ?? [])
+        .filter((line) => line.status === "closed" && line.gain! < 0)
+        .map((line) => ({ vintageName, line, lots: lots! }))
+    )
+    .sort((a, b) => a.line.sold! - b.line.sold!);
+
+  const result = new Map<string, WashSaleLine[] | undefined>();
+  for (const { vintageName, lots } of vintages) {
+    result.set(vintageName, lots && []);
+  }
+
+  for (const { vintageName, line, lots } of losses) {
+    const closedBySale = new Set(
+      lots.filter((other) => other.saleRow === line.saleRow).map((other) => other.lotRow)
+    );
+    const candidates = buys.filter(
+      (buy) =>
+        (scope === "all" || buy.vintageName === vintageName) &&
+        buy.trade.symbol === line.symbol &&
+        buy.available > QUANTITY_TOLERANCE &&
+        Math.abs(buy.trade.date - line.sold!) <= WASH_SALE_WINDOW_DAYS &&
+        !(buy.vintageName === vintageName && closedBySale.has(buy.trade.row))
+    );
+
+    let remaining = line.quantity;
+    for (const buy of candidates) {
+      if (remaining <= QUANTITY_TOLERANCE) break;
+
+      const quantity = Math.min(remaining, buy.available);
+      result.get(vintageName)!.push({
+        symbol: line.symbol,
+        lot: line.lot,
+        acquired: line.acquired!,
+        sold: line.sold!,
+        lotRow: line.lotRow!,
+        saleRow: line.saleRow!,
+        quantity,
+        loss: (line.gain! * quantity) / line.quantity,
+        replacementVintage: buy.vintageName,
+        replacementRow: buy.trade.row,
+        replacementDate: buy.trade.date,
+        replacementCost: quantity * buy.trade.perShare,
+      });
+
+      buy.available -= quantity;
+      remaining -= quantity;
+    }
+  }
+
+  return result;
+}
+
+// Part of a lot slice, its amounts scaled to the quantity
+function partOf(line: LotLine, quantity: number): LotLine {
+  const scale = (value: number | undefined) =>
+    value === undefined ? undefined : (value * quantity) / line.quantity;
+  return {
+    ...line,
+    quantity,
+    costBasis: scale(line.costBasis),
+    proceeds: scale(line.proceeds),
+    gain: scale(line.gain),
+    adjustment: scale(line.adjustment),
+    washSaleBasis: scale(line.washSaleBasis),
+  };
+}
+
+function withNote(line: LotLine, note: string): string {
+  return line.note ? `${line.note}; ${note}` : note;
+}
+
+/**
+ * Apply the wash sales to a vintage's matched lots. The disallowed part of
+ * each of its loss sales is added back to the gain as an adjustment. Each
+ * of its lots that replaced sold shares, in this or another vintage, has
+ * the disallowed loss added to the basis of the replacement shares and
+ * their acquisition date moved back by the sold shares' holding period;
+ * a lot slice only partly used as replacement is split.
+ */
+export function applyWashSales(
+  vintageName: string,
+  lots: LotLine[] | undefined,
+  washSales: Map<string, WashSaleLine[] | undefined>
+): LotLine[] | undefined {
+  if (!lots) return undefined;
+
+  let adjusted = lots.map((line) => ({ ...line }));
+  for (const wash of washSales.get(vintageName) ?? []) {
+    const sale = adjusted.find(
+      (line) => line.status === "closed" && line.saleRow === wash.saleRow && line.lotRow === wash.lotRow
+    );
+    if (!sale) continue;
+    sale.adjustment = (sale.adjustment ?? 0) - wash.loss;
+    sale.gain = sale.gain! - wash.loss;
+    sale.note = withNote(sale, `Wash sale: ${(-wash.loss).toFixed(2)} of the loss disallowed`);
+  }
+
+  const replacements = Array.from(washSales.values())
+    .flatMap((lines) => lines ?? [])
+    .filter((wash) => wash.replacementVintage === vintageName);
+  for (const wash of replacements) {
+    const disallowedPerShare = -wash.loss / wash.quantity;
+    const tackedDays = wash.sold - wash.acquired;
+    let remaining = wash.quantity;
+
+    adjusted = adjusted.flatMap((line) => {
+      if (
+        remaining <= QUANTITY_TOLERANCE ||
+        line.lotRow !== wash.replacementRow ||
+        line.status === "uncovered" ||
+        line.washSaleBasis !== undefined
+      ) {
+        return [line];
+      }
+
+      const quantity = Math.min(remaining, line.quantity);
+      remaining -= quantity;
+      const disallowed = disallowedPerShare * quantity;
+      const part = partOf(line, quantity);
+      const acquired = part.acquired! - tackedDays;
+      const replaced: LotLine = {
+        ...part,
+        acquired,
+        costBasis: part.costBasis! + disallowed,
+        gain: part.gain === undefined ? undefined : part.gain - disallowed,
+        holdingDays: part.sold === undefined ? undefined : part.sold - acquired,
+        washSaleBasis: disallowed,
+        note: withNote(part, `Basis includes ${disallowed.toFixed(2)} disallowed wash sale loss`),
+      };
+      return line.quantity - quantity > QUANTITY_TOLERANCE
+        ? [replaced, partOf(line, line.quantity - quantity)]
+        : [replaced];
+    });
+  }
+
+  return adjusted;
+}
+
+// Row of a realized row index on the Realized sheet, below its header row
+function realizedSheetRow(index: number): number {
+  return index + 2;
+}
+
+/**
+ * Build the Wash Sales sheet for a vintage: the scope and window, the total
+ * disallowed loss, then one line per replaced part of a loss sale. Sale and
+ * replacement rows link to the Realized sheet when in this workbook; the
+ * disallowed loss and adjusted basis are formulas.
+ */
+export function buildWashSalesSheet(
+  lines: WashSaleLine[] | undefined,
+  vintageName: string,
+  scope: WashSaleScope
+): XLSX.WorkSheet {
+  const sheet: XLSX.WorkSheet = {};
+  const rows = lines ?? [];
+  const firstRow = HEADER_ROW + 1;
+  const lastRow = HEADER_ROW + Math.max(rows.length, 1);
+
+  sheet["A1"] = { v: "Scope", t: "s" };
+  sheet["B1"] = { v: SCOPE_LABELS[scope], t: "s" };
+  sheet["A2"] = { v: "Window (days)", t: "s" };
+  sheet["B2"] = { v: WASH_SALE_WINDOW_DAYS, t: "n" };
+  sheet["A3"] = { v: "Disallowed loss", t: "s" };
+  sheet["B3"] = {
+    f: `SUM(K${firstRow}:K${lastRow})`,
+    v: rows.reduce((total, line) => total - line.loss, 0),
+    t: "n",
+    z: "0.00",
+  };
+
+  const headers = [
+    "Symbol",
+    "Lot",
+    "Sale Date",
+    "Sale Row",
+    "Quantity",
+    "Loss",
+    "Replacement Vintage",
+    "Replacement Date",
+    "Replacement Row",
+    "Replacement Cost",
+    "Disallowed Loss",
+    "Adjusted Basis",
+  ];
+  headers.forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: HEADER_ROW - 1, c })] = { v: header, t: "s" };
+  });
+
+  if (!lines) {
+    sheet[`A${firstRow}`] = { v: "Quantity column not found; wash sales not checked", t: "s" };
+  } else if (lines.length === 0) {
+    sheet[`A${firstRow}`] = { v: "No wash sales found", t: "s" };
+  }
+
+  rows.forEach((line, index) => {
+    const r = firstRow + index;
+    const saleRow = realizedSheetRow(line.saleRow);
+    const replacementRow = realizedSheetRow(line.replacementRow);
+
+    sheet[`A${r}`] = { v: line.symbol, t: "s" };
+    sheet[`B${r}`] = { v: line.lot, t: "s" };
+    sheet[`C${r}`] = { v: line.sold, t: "n", z: "yyyy-mm-dd" };
+    sheet[`D${r}`] = { v: saleRow, t: "n", l: { Target: `#Realized!A${saleRow}` } };
+    sheet[`E${r}`] = { v: line.quantity, t: "n" };
+    sheet[`F${r}`] = { v: line.loss, t: "n", z: "0.00" };
+    sheet[`G${r}`] = { v: line.replacementVintage, t: "s" };
+    sheet[`H${r}`] = { v: line.replacementDate, t: "n", z: "yyyy-mm-dd" };
+    sheet[`I${r}`] =
+      line.replacementVintage === vintageName
+        ? { v: replacementRow, t: "n", l: { Target: `#Realized!A${replacementRow}` } }
+        : { v: replacementRow, t: "n" };
+    sheet[`J${r}`] = { v: line.replacementCost, t: "n", z: "0.00" };
+    sheet[`K${r}`] = { f: `-F${r}`, v: -line.loss, t: "n", z: "0.00" };
+    sheet[`L${r}`] = {
+      f: `J${r}+K${r}`,
+      v: line.replacementCost - line.loss,
+      t: "n",
+      z: "0.00",
+    };
+  });
+
+  sheet["!ref"] = `A1:L${lastRow}`;
+  sheet["!cols"] = [
+    { wch: 16 },
+    { wch: 16 },
+    { wch: 12 },
+    { wch: 10 },
+    { wch: 10 },
+    { wch: 14 },
+    { wch: 20 },
+    { wch: 17 },
+    { wch: 16 },
+    { wch: 17 },
+    { wch: 15 },
+    { wch: 15 },
+  ];
+  return sheet;
+}
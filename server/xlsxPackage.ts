@@ -0,0 +1,197 @@
+import JSZip from "jszip";
+
+// Parts SheetJS does not write (charts, drawings, tables) are added to its
+// output by editing the xlsx package directly
+
+const RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const EMPTY_RELATIONSHIPS =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Relationships xmlns="${RELATIONSHIPS_NS}"></Relationships>`;
+
+export const RELATIONSHIP_TYPES = {
+  drawing: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing",
+  chart: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart",
+  table: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/table",
+};
+export const CONTENT_TYPES = {
+  drawing: "application/vnd.openxmlformats-officedocument.drawing+xml",
+  chart: "application/vnd.openxmlformats-officedocument.drawingml.chart+xml",
+  table: "application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml",
+};
+
+// Worksheet children after the cell data in schema order; an added element
+// goes ahead of whichever of its successors the part already has
+const WORKSHEET_TAIL = [
+  "conditionalFormatting",
+  "dataValidations",
+  "hyperlinks",
+  "printOptions",
+  "pageMargins",
+  "pageSetup",
+  "headerFooter",
+  "rowBreaks",
+  "colBreaks",
+  "customProperties",
+  "cellWatches",
+  "ignoredErrors",
+  "smartTags",
+  "drawing",
+  "legacyDrawing",
+  "legacyDrawingHF",
+  "drawingHF",
+  "picture",
+  "oleObjects",
+  "controls",
+  "webPublishItems",
+  "tableParts",
+  "extLst",
+];
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function relsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  return `${partPath.slice(0, slash)}/_rels/${partPath.slice(slash + 1)}.rels`;
+}
+
+function resolvePath(from: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = from.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) throw new Error(`Workbook part ${path} not found`);
+  return file.async("string");
+}
+
+/**
+ * Path of a worksheet's part in the package, from its name in workbook.xml
+ */
+export async function worksheetPath(zip: JSZip, sheetName: string): Promise<string> {
+  const workbook = await readPart(zip, "xl/workbook.xml");
+  const sheet = Array.from(workbook.matchAll(/<sheet\b[^>]*>/g))
+    .map(([tag]) => tag)
+    .find((tag) => tag.includes(`name="${escapeXml(sheetName)}"`));
+  const id = sheet?.match(/r:id="([^"]+)"/)?.[1];
+  if (!id) throw new Error(`Worksheet ${sheetName} not found`);
+
+  const rels = await readPart(zip, "xl/_rels/workbook.xml.rels");
+  const target = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g))
+    .map(([tag]) => tag)
+    .find((tag) => tag.includes(`Id="${id}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) throw new Error(`Worksheet ${sheetName} has no part`);
+  return resolvePath("xl/workbook.xml", target);
+}
+
+/**
+ * Add a relationship from a part to a target (relative to the part) and
+ * return its id, creating the part's relationships file when needed
+ */
+export async function addRelationship(
+  zip: JSZip,
+  partPath: string,
+  type: string,
+  target: string
+): Promise<string> {
+  const path = relsPath(partPath);
+  const existing = zip.file(path) ? await readPart(zip, path) : EMPTY_RELATIONSHIPS;
+
+  const used = new Set(Array.from(existing.matchAll(/Id="([^"]+)"/g)).map(([, id]) => id));
+  let n = 1;
+  while (used.has(`rId${n}`)) n++;
+  const id = `rId${n}`;
+
+  zip.file(
+    path,
+    existing.replace(
+      "</Relationships>",
+      `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"/></Relationships>`
+    )
+  );
+  return id;
+}
+
+/**
+ * Register a new part's content type in [Content_Types].xml
+ */
+export async function addContentType(zip: JSZip, partPath: string, contentType: string): Promise<void> {
+  const types = await readPart(zip, "[Content_Types].xml");
+  zip.file(
+    "[Content_Types].xml",
+    types.replace("</Types>", `<Override PartName="/${partPath}" ContentType="${contentType}"/></Types>`)
+  );
+}
+
+/**
+ * Insert an element (conditionalFormatting, drawing, tableParts, ...) into a worksheet part at
+ * its place in the schema order
+ */
+export async function insertWorksheetElement(zip: JSZip, sheetPath: string, element: string): Promise<void> {
+  const xml = await readPart(zip, sheetPath);
+  const name = element.match(/^<(\w+)/)?.[1] ?? "";
+  const successors = WORKSHEET_TAIL.slice(WORKSHEET_TAIL.indexOf(name) + 1);
+  const at = Math.min(
+    xml.indexOf("</worksheet>"),
+    ...successors
+      .map((tag) => xml.search(new RegExp(`<${tag}[\\s/>]`)))
+      .filter((index) => index >= 0)
+  );
+  zip.file(sheetPath, xml.slice(0, at) + element + xml.slice(at));
+}
+
+/**
+ * Freeze the rows above a worksheet row so they stay in view when scrolling
+ */
+export async function freezeRows(zip: JSZip, sheetPath: string, firstScrollingRow: number): Promise<void> {
+  const xml = await readPart(zip, sheetPath);
+  const pane =
+    `<pane ySplit="${firstScrollingRow - 1}" topLeftCell="A${firstScrollingRow}" ` +
+    `activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft"/>`;
+  zip.file(sheetPath, xml.replace(/<sheetView\b([^>]*?)\/>/, `<sheetView$1>${pane}</sheetView>`));
+}
+
+/**
+ * Add a differential format (the styling a conditional format applies) to
+ * the workbook styles and return its index
+ */
+export async function addDifferentialFormat(zip: JSZip, dxf: string): Promise<number> {
+  const styles = await readPart(zip, "xl/styles.xml");
+  const count = Number(styles.match(/<dxfs count="(\d+)"/)?.[1] ?? 0);
+  const updated = styles.includes("<dxfs count=\"0\"/>")
+    ? styles.replace("<dxfs count=\"0\"/>", `<dxfs count="1">${dxf}</dxfs>`)
+    : styles
+        .replace(/<dxfs count="\d+">/, `<dxfs count="${count + 1}">`)
+        .replace("</dxfs>", `${dxf}</dxfs>`);
+  zip.file("xl/styles.xml", updated);
+  return count;
+}
+
+/**
+ * Next free numbered part name, e.g. xl/charts/chart3.xml
+ */
+export function nextPartPath(zip: JSZip, folder: string, prefix: string): string {
+  let n = 1;
+  while (zip.file(`${folder}/${prefix}${n}.xml`)) n++;
+  return `${folder}/${prefix}${n}.xml`;
+}
+
+export async function loadPackage(buffer: Buffer): Promise<JSZip> {
+  return JSZip.loadAsync(buffer);
+}
+
+export async function savePackage(zip: JSZip): Promise<Buffer> {
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
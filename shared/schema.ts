@@ -1,4 +1,147 @@
 import { z } from "zod";
+import {
+  pgTable,
+  text,
+  varchar,
+  integer,
+  serial,
+  timestamp,
+  customType,
+  uniqueIndex,
+  jsonb,
+} from "drizzle-orm/pg-core";
+
+// Binary column for workbook contents; drivers return a Buffer (node-postgres,
+// neon) or a plain Uint8Array (PGlite)
+const bytea = customType<{ data: Buffer; driverData: Uint8Array }>({
+  dataType() {
+    return "bytea";
+  },
+  fromDriver(value) {
+    return Buffer.isBuffer(value) ? value : Buffer.from(value);
+  },
+});
+
+// A single /api/process-files invocation
+export const runs = pgTable("runs", {
+  id: varchar("id").primaryKey(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  generatorVersion: text("generator_version").notNull(),
+  mappingProfile: text("mapping_profile").notNull().default("default"),
+  lotMethod: text("lot_method").notNull().default("fifo"),
+  longTermDays: integer("long_term_days").notNull().default(365),
+  washSaleScope: text("wash_sale_scope").notNull().default("vintage"),
+  twrMethod: text("twr_method").notNull().default("daily"),
+  // 1-based header row overrides; null when the header row was detected
+  realizedHeaderRow: integer("realized_header_row"),
+  unrealizedHeaderRow: integer("unrealized_header_row"),
+  // Sheets read from each source workbook; null for the first sheet
+  realizedSheets: jsonb("realized_sheets").$type<SheetSelection>(),
+  unrealizedSheets: jsonb("unrealized_sheets").$type<SheetSelection>(),
+  // Duplicate trade detection; a null key is the default key
+  duplicateKey: jsonb("duplicate_key").$type<DuplicateKeyField[]>(),
+  duplicateHandling: text("duplicate_handling").notNull().default("keep"),
+});
+
+export type Run = typeof runs.$inferSelect;
+
+// Source workbooks uploaded for a run
+export const sourceFiles = pgTable(
+  "source_files",
+  {
+    id: serial("id").primaryKey(),
+    runId: varchar("run_id")
+      .notNull()
+      .references(() => runs.id, { onDelete: "cascade" }),
+    kind: text("kind").notNull(),
+    filename: text("filename").notNull(),
+    mimetype: text("mimetype").notNull(),
+    size: integer("size").notNull(),
+    data: bytea("data").notNull(),
+  },
+  (table) => [uniqueIndex("source_files_run_kind_idx").on(table.runId, table.kind)]
+);
+
+export type SourceFile = typeof sourceFiles.$inferSelect;
+
+// Generated vintage workbooks and their metadata
+export const vintageFiles = pgTable(
+  "vintage_files",
+  {
+    id: serial("id").primaryKey(),
+    runId: varchar("run_id")
+      .notNull()
+      .references(() => runs.id, { onDelete: "cascade" }),
+    vintageName: text("vintage_name").notNull(),
+    filename: text("filename").notNull(),
+    realizedRowCount: integer("realized_row_count").notNull(),
+    unrealizedRowCount: integer("unrealized_row_count").notNull(),
+    fileSize: integer("file_size").notNull(),
+    sheetCount: integer("sheet_count"),
+    reconciliation: jsonb("reconciliation").$type<ReconciliationSummary>(),
+    returns: jsonb("returns").$type<VintageReturns>(),
+    metrics: jsonb("metrics").$type<VintageMetrics>(),
+    twr: jsonb("twr").$type<VintageTwr>(),
+    data: bytea("data").notNull(),
+  },
+  (table) => [uniqueIndex("vintage_files_run_vintage_idx").on(table.runId, table.vintageName)]
+);
+
+export type VintageFile = typeof vintageFiles.$inferSelect;
+
+// Run-level report workbooks (e.g. validation issues), keyed by report name
+export const reportFiles = pgTable(
+  "report_files",
+  {
+    id: serial("id").primaryKey(),
+    runId: varchar("run_id")
+      .notNull()
+      .references(() => runs.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    filename: text("filename").notNull(),
+    fileSize: integer("file_size").notNull(),
+    data: bytea("data").notNull(),
+  },
+  (table) => [uniqueIndex("report_files_run_name_idx").on(table.runId, table.name)]
+);
+
+export type ReportFileRow = typeof reportFiles.$inferSelect;
+
+// Column mapping profiles, keyed by profile name
+export const mappingProfiles = pgTable("mapping_profiles", {
+  name: varchar("name").primaryKey(),
+  profile: jsonb("profile").$type<MappingProfile>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// How SELLs are matched against open BUY lots: first in first out, last in
+// first out, highest cost first, or the lot named on the SELL row
+export const lotMethodSchema = z.enum(["fifo", "lifo", "hifo", "specific"]);
+
+export type LotMethod = z.infer<typeof lotMethodSchema>;
+
+// Where a wash sale's replacement BUY may come from: the loss sale's own
+// vintage, or any vintage in the run
+export const washSaleScopeSchema = z.enum(["vintage", "all"]);
+
+export type WashSaleScope = z.infer<typeof washSaleScopeSchema>;
+
+// Which upload slot a source file came from
+export const sourceFileKindSchema = z.enum(["realized", "unrealized"]);
+
+export type SourceFileKind = z.infer<typeof sourceFileKindSchema>;
+
+// Every file a run keeps: the two mapped inputs plus the optional price history
+export const storedFileKindSchema = z.enum(["realized", "unrealized", "prices"]);
+
+export type StoredFileKind = z.infer<typeof storedFileKindSchema>;
+
+// How time-weighted return sub-periods are formed: revaluing at every
+// cash flow date (daily), or one Modified Dietz period per calendar month
+export const twrMethodSchema = z.enum(["daily", "monthly"]);
+
+export type TwrMethod = z.infer<typeof twrMethodSchema>;
 
 // Schema for uploaded file information
 export const uploadedFileSchema = z.object({
@@ -9,6 +152,97 @@ export const uploadedFileSchema = z.object({
 
 export type UploadedFile = z.infer<typeof uploadedFileSchema>;
 
+// How a symbol's net realized shares compare with its unrealized position:
+// equal, different, fully sold and absent from positions, or present in
+// only one file
+export const reconciliationStatusSchema = z.enum([
+  "match",
+  "break",
+  "closed",
+  "realized_only",
+  "unrealized_only",
+]);
+
+export type ReconciliationStatus = z.infer<typeof reconciliationStatusSchema>;
+
+export const reconciliationLineSchema = z.object({
+  symbol: z.string(),
+  realizedQuantity: z.number().nullable(),
+  unrealizedQuantity: z.number().nullable(),
+  difference: z.number(),
+  status: reconciliationStatusSchema,
+});
+
+export type ReconciliationLine = z.infer<typeof reconciliationLineSchema>;
+
+// Per-vintage reconciliation counts; `breaks` lists every line needing
+// attention (breaks and orphans)
+export const reconciliationSummarySchema = z.object({
+  matchCount: z.number(),
+  breakCount: z.number(),
+  orphanCount: z.number(),
+  breaks: z.array(reconciliationLineSchema),
+});
+
+export type ReconciliationSummary = z.infer<typeof reconciliationSummarySchema>;
+
+// Money-weighted return (XIRR) of one symbol; null when XIRR has no solution
+export const symbolReturnSchema = z.object({
+  symbol: z.string(),
+  xirr: z.number().nullable(),
+});
+
+export type SymbolReturn = z.infer<typeof symbolReturnSchema>;
+
+// Per-vintage XIRR over the realized cash flows, with the unrealized market
+// value as the terminal flow on the `asOf` date (yyyy-mm-dd)
+export const vintageReturnsSchema = z.object({
+  asOf: z.string(),
+  xirr: z.number().nullable(),
+  symbols: z.array(symbolReturnSchema),
+});
+
+export type VintageReturns = z.infer<typeof vintageReturnsSchema>;
+
+// Fund-style cohort metrics of a vintage: paid-in capital from BUYs,
+// distributions from SELLs and dividends, residual value from unrealized
+// market value. Multiples are null without paid-in capital.
+export const vintageMetricsSchema = z.object({
+  paidIn: z.number(),
+  distributions: z.number(),
+  residualValue: z.number(),
+  dpi: z.number().nullable(),
+  rvpi: z.number().nullable(),
+  tvpi: z.number().nullable(),
+  moic: z.number().nullable(),
+});
+
+export type VintageMetrics = z.infer<typeof vintageMetricsSchema>;
+
+// Where time-weighted return valuations take prices from
+export const priceSourceSchema = z.enum(["history", "marks"]);
+
+export type PriceSource = z.infer<typeof priceSourceSchema>;
+
+// Linked return of one calendar month (yyyy-mm) and the cumulative return
+// through its end; null where the portfolio held nothing to return on
+export const monthlyReturnSchema = z.object({
+  month: z.string(),
+  return: z.number().nullable(),
+  cumulative: z.number().nullable(),
+});
+
+export type MonthlyReturn = z.infer<typeof monthlyReturnSchema>;
+
+export const vintageTwrSchema = z.object({
+  method: twrMethodSchema,
+  priceSource: priceSourceSchema,
+  cumulative: z.number().nullable(),
+  months: z.array(monthlyReturnSchema),
+});
+
+export type VintageTwr = z.infer<typeof vintageTwrSchema>;
+
 // Schema for processed vintage data
 export const vintageResultSchema = z.object({
   vintageName: z.string(),
@@ -16,14 +250,316 @@ export const vintageResultSchema = z.object({
   realizedRowCount: z.number(),
   unrealizedRowCount: z.number(),
   fileSize: z.number(),
+  // Sheets in the generated workbook; absent for runs generated before the
+  // count was recorded
+  sheetCount: z.number().optional(),
+  // Absent when the quantity columns are missing, and for runs generated
+  // before reconciliation existed
+  reconciliation: reconciliationSummarySchema.optional(),
+  // Absent when the vintage has no dated cash flows, and for runs generated
+  // before returns existed
+  returns: vintageReturnsSchema.optional(),
+  // Absent for runs generated before vintage metrics existed
+  metrics: vintageMetricsSchema.optional(),
+  // Absent when the vintage has no dated trades, and for runs generated
+  // before time-weighted returns existed
+  twr: vintageTwrSchema.optional(),
 });
 
 export type VintageResult = z.infer<typeof vintageResultSchema>;
 
+// Schema for a run-level report workbook
+export const reportFileSchema = z.object({
+  name: z.string(),
+  filename: z.string(),
+  fileSize: z.number(),
+});
+
+export type ReportFile = z.infer<typeof reportFileSchema>;
+
+// A problem found in a single source row; errors mean the row is dropped or
+// breaks a formula, warnings flag values that look wrong but are kept
+export const validationSeveritySchema = z.enum(["error", "warning"]);
+
+export type ValidationSeverity = z.infer<typeof validationSeveritySchema>;
+
+export const validationIssueSchema = z.object({
+  severity: validationSeveritySchema,
+  kind: sourceFileKindSchema,
+  sheetName: z.string(),
+  row: z.number(),
+  column: z.string(),
+  value: z.string(),
+  message: z.string(),
+});
+
+export type ValidationIssue = z.infer<typeof validationIssueSchema>;
+
+// Validation counts plus the first issues; the full list is in the report
+export const validationSummarySchema = z.object({
+  errorCount: z.number(),
+  warningCount: z.number(),
+  issues: z.array(validationIssueSchema),
+  truncated: z.boolean(),
+});
+
+export type ValidationSummary = z.infer<typeof validationSummarySchema>;
+
+// 1-based header row override for each source file
+export const headerRowsSchema = z.object({
+  realized: z.number().int().min(1),
+  unrealized: z.number().int().min(1),
+});
+
+export type HeaderRows = z.infer<typeof headerRowsSchema>;
+
+// Sheets to read from a source workbook: explicit sheet names, or "all"
+// for every sheet whose headers match the mapping profile
+export const sheetSelectionSchema = z.union([z.literal("all"), z.array(z.string()).min(1)]);
+
+export type SheetSelection = z.infer<typeof sheetSelectionSchema>;
+
+// A sheet that was read from a source workbook
+export const sourceSheetSchema = z.object({
+  sheetName: z.string(),
+  headerRow: z.number(),
+  rowCount: z.number(),
+});
+
+export type SourceSheet = z.infer<typeof sourceSheetSchema>;
+
+// Sheet listing returned by /api/sheets
+export const sheetInfoSchema = sourceSheetSchema.extend({
+  headers: z.array(z.string()),
+  matchesProfile: z.boolean(),
+});
+
+export type SheetInfo = z.infer<typeof sheetInfoSchema>;
+
+export const sheetsResponseSchema = z.object({
+  sheets: z.array(sheetInfoSchema),
+});
+
+export type SheetsResponse = z.infer<typeof sheetsResponseSchema>;
+
+// Multipart fields arrive as strings, so sheet selections are JSON-encoded
+const sheetSelectionFieldSchema = z.preprocess((value) => {
+  if (typeof value === "string" && value.startsWith("[")) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}, sheetSelectionSchema);
+
+// Inferred type of a source column in the data preview
+export const columnTypeSchema = z.enum(["date", "number", "currency", "text"]);
+
+export type ColumnType = z.infer<typeof columnTypeSchema>;
+
+// Parsed contents of one source file, as returned by /api/preview
+export const filePreviewSchema = z.object({
+  sourceSheets: z.array(sourceSheetSchema),
+  headers: z.array(z.string()),
+  columnTypes: z.record(z.string(), columnTypeSchema),
+  rows: z.array(z.record(z.string(), z.string())),
+  totalRows: z.number(),
+  vintages: z.array(z.string()),
+  missingColumns: z.array(z.string()),
+});
+
+export type FilePreview = z.infer<typeof filePreviewSchema>;
+
+export const previewResponseSchema = z.object({
+  realized: filePreviewSchema,
+  unrealized: filePreviewSchema,
+});
+
+export type PreviewResponse = z.infer<typeof previewResponseSchema>;
+
+// Realized fields that can make up the duplicate detection key
+export const duplicateKeyFieldSchema = z.enum([
+  "symbol",
+  "tradeDate",
+  "side",
+  "quantity",
+  "price",
+  "tradeId",
+]);
+
+export type DuplicateKeyField = z.infer<typeof duplicateKeyFieldSchema>;
+
+// What to do with realized rows that repeat an earlier row's key: keep them
+// as they are, drop them, or keep them with a "Duplicate Of" column
+export const duplicateHandlingSchema = z.enum(["keep", "drop", "flag"]);
+
+export type DuplicateHandling = z.infer<typeof duplicateHandlingSchema>;
+
+export const duplicateOptionsSchema = z.object({
+  key: z.array(duplicateKeyFieldSchema).min(1),
+  handling: duplicateHandlingSchema,
+});
+
+export type DuplicateOptions = z.infer<typeof duplicateOptionsSchema>;
+
+// Duplicate key fields arrive as a JSON array or a comma-separated list
+const duplicateKeyFieldsSchema = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  if (value.startsWith("[")) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value.split(",").map((field) => field.trim());
+}, z.array(duplicateKeyFieldSchema).min(1));
+
+// Options accepted by /api/process-files (multipart fields) and
+// /api/runs/:runId/reprocess (JSON body)
+export const processRequestSchema = z.object({
+  mappingProfile: z.string().optional(),
+  realizedHeaderRow: z.coerce.number().int().min(1).optional(),
+  unrealizedHeaderRow: z.coerce.number().int().min(1).optional(),
+  realizedSheets: sheetSelectionFieldSchema.optional(),
+  unrealizedSheets: sheetSelectionFieldSchema.optional(),
+  duplicateKey: duplicateKeyFieldsSchema.optional(),
+  duplicateHandling: duplicateHandlingSchema.optional(),
+  lotMethod: lotMethodSchema.optional(),
+  longTermDays: z.coerce.number().int().min(0).optional(),
+  washSaleScope: washSaleScopeSchema.optional(),
+  twrMethod: twrMethodSchema.optional(),
+});
+
+export type ProcessRequest = z.infer<typeof processRequestSchema>;
+
 // Schema for the process files response
 export const processFilesResponseSchema = z.object({
+  runId: z.string(),
+  expiresAt: z.string(),
+  lotMethod: lotMethodSchema,
+  longTermDays: z.number(),
+  washSaleScope: washSaleScopeSchema,
+  twrMethod: twrMethodSchema,
+  sourceSheets: z.object({
+    realized: z.array(sourceSheetSchema),
+    unrealized: z.array(sourceSheetSchema),
+  }),
   vintages: z.array(vintageResultSchema),
+  validation: validationSummarySchema,
+  duplicates: duplicateOptionsSchema.extend({ count: z.number() }),
+  reports: z.array(reportFileSchema),
   message: z.string(),
 });
 
 export type ProcessFilesResponse = z.infer<typeof processFilesResponseSchema>;
+
+// Schema for a stored processing run, as listed in the run history
+export const runRecordSchema = z.object({
+  runId: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  generatorVersion: z.string(),
+  mappingProfile: z.string(),
+  lotMethod: lotMethodSchema,
+  longTermDays: z.number(),
+  washSaleScope: washSaleScopeSchema,
+  twrMethod: twrMethodSchema,
+  realizedHeaderRow: z.number().optional(),
+  unrealizedHeaderRow: z.number().optional(),
+  realizedSheets: sheetSelectionSchema.optional(),
+  unrealizedSheets: sheetSelectionSchema.optional(),
+  duplicateKey: z.array(duplicateKeyFieldSchema),
+  duplicateHandling: duplicateHandlingSchema,
+  sourceFiles: z.array(uploadedFileSchema.extend({ kind: storedFileKindSchema })),
+  vintages: z.array(vintageResultSchema),
+  reports: z.array(reportFileSchema),
+});
+
+export type RunRecord = z.infer<typeof runRecordSchema>;
+
+// One vintage workbook in a run's ZIP archive
+export const archiveEntrySchema = z.object({
+  vintageName: z.string(),
+  filename: z.string(),
+  realizedRowCount: z.number(),
+  unrealizedRowCount: z.number(),
+  fileSize: z.number(),
+  sha256: z.string(),
+});
+
+export type ArchiveEntry = z.infer<typeof archiveEntrySchema>;
+
+// Manifest stored in a run's ZIP archive as manifest.json
+export const archiveManifestSchema = z.object({
+  runId: z.string(),
+  createdAt: z.string(),
+  generatorVersion: z.string(),
+  files: z.array(archiveEntrySchema),
+});
+
+export type ArchiveManifest = z.infer<typeof archiveManifestSchema>;
+
+const headerNameSchema = z.string().trim().min(1, "Header name is required");
+
+// Logical fields read from the realized trades file, mapped to source headers
+export const realizedColumnsSchema = z.object({
+  symbol: headerNameSchema,
+  tradeDate: headerNameSchema,
+  side: headerNameSchema,
+  amount: headerNameSchema,
+  vintage: headerNameSchema,
+  quantity: headerNameSchema,
+  price: headerNameSchema,
+  // Added after the first profiles were saved, hence the default
+  tradeId: headerNameSchema.default("Trade ID"),
+  // On SELL rows, the Trade ID of the BUY lot sold (specific identification)
+  lotId: headerNameSchema.default("Lot ID"),
+});
+
+export type RealizedColumns = z.infer<typeof realizedColumnsSchema>;
+
+// Logical fields read from the unrealized positions file, mapped to source headers
+export const unrealizedColumnsSchema = z.object({
+  symbol: headerNameSchema,
+  vintage: headerNameSchema,
+  date: headerNameSchema,
+  quantity: headerNameSchema,
+  price: headerNameSchema,
+  marketValue: headerNameSchema,
+});
+
+export type UnrealizedColumns = z.infer<typeof unrealizedColumnsSchema>;
+
+// Fields read from the optional price history file used for time-weighted returns
+export const priceColumnsSchema = z.object({
+  symbol: headerNameSchema.default("Symbol"),
+  date: headerNameSchema.default("Date"),
+  price: headerNameSchema.default("Price"),
+});
+
+export type PriceColumns = z.infer<typeof priceColumnsSchema>;
+
+// How numeric text dates such as 05/01/2024 are read: month first (US) or
+// day first (EU). ISO dates and Excel serial dates read the same either way.
+export const dateOrderSchema = z.enum(["us", "eu"]);
+
+export type DateOrder = z.infer<typeof dateOrderSchema>;
+
+// Schema for a named column mapping profile
+export const mappingProfileSchema = z.object({
+  name: z.string().trim().min(1, "Profile name is required"),
+  realized: realizedColumnsSchema,
+  unrealized: unrealizedColumnsSchema,
+  buyValue: z.string().trim().min(1, "Buy value is required"),
+  sellValue: z.string().trim().min(1, "Sell value is required"),
+  // Side value of dividend rows, counted as distributions
+  dividendValue: z.string().trim().min(1, "Dividend value is required").default("DIVIDEND"),
+  prices: priceColumnsSchema.default({}),
+  // Added after the first profiles were saved, hence the default
+  dateOrder: dateOrderSchema.default("us"),
+});
+
+export type MappingProfile = z.infer<typeof mappingProfileSchema>;